@@ -22,6 +22,7 @@
 // OTHER DEALINGS IN THE SOFTWARE.
 
 import Seven from 'node-7z'
+import { spawn } from 'child_process'
 import { Data, SevenZipOptions } from './node-7z-fix'
 
 export function listZipFiles(path: string, config?: SevenZipOptions): Promise<Data[]> {
@@ -82,3 +83,55 @@ export function addZipFiles(path: string, files: string | string[], config?: Sev
 		})
 	})
 }
+
+export function extractZipFiles(path: string, outputDirectory: string, config?: SevenZipOptions): Promise<void> {
+	return new Promise((resolve, reject) => {
+		let finished = false
+		const stream = Seven.extractFull(path, outputDirectory, config)
+
+		stream.on('end', () => {
+			if (finished) {
+				return
+			}
+
+			finished = true
+			resolve()
+		})
+
+		stream.on('error', (err) => {
+			if (finished) {
+				return
+			}
+
+			finished = true
+			reject(err)
+		})
+	})
+}
+
+/**
+ * Reads single file from archive into memory
+ *
+ * @param file path of file inside archive
+ * @returns contents of file, or empty buffer if archive does not contain it
+ */
+export function readZipFile(path: string, file: string, bin = '7z'): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const child = spawn(bin, ['x', '-so', '-bd', '-y', path, file], {stdio: ['ignore', 'pipe', 'pipe']})
+		const chunks: Buffer[] = []
+		const errors: Buffer[] = []
+
+		child.stdout.on('data', (data: Buffer) => chunks.push(data))
+		child.stderr.on('data', (data: Buffer) => errors.push(data))
+		child.on('error', reject)
+
+		child.on('close', (code) => {
+			if (code != 0) {
+				reject(new Error(`${bin} exited with code ${code} while reading ${file} from ${path}: ${Buffer.concat(errors).toString('utf-8').trim()}`))
+				return
+			}
+
+			resolve(Buffer.concat(chunks))
+		})
+	})
+}
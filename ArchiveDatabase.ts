@@ -0,0 +1,315 @@
+
+import initSqlJs, { BindParams, Database, SqlValue } from 'sql.js'
+import { promises } from 'fs'
+import { LocalForumPost, WikiDot } from './WikiDot'
+import { User, WikiDotUserList } from './WikidotUserList'
+import { writeFileAtomic } from './storage'
+
+const schema = `
+CREATE TABLE IF NOT EXISTS users (
+	user_id INTEGER PRIMARY KEY,
+	username TEXT NOT NULL,
+	full_name TEXT,
+	real_name TEXT,
+	wikidot_user_since INTEGER,
+	account_type TEXT,
+	activity INTEGER,
+	fetched_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS users_username ON users (username);
+
+CREATE TABLE IF NOT EXISTS pages (
+	wiki TEXT NOT NULL,
+	name TEXT NOT NULL,
+	page_id INTEGER NOT NULL,
+	title TEXT,
+	parent TEXT,
+	rating INTEGER,
+	is_locked INTEGER,
+	forum_thread INTEGER,
+	sitemap_update INTEGER,
+	PRIMARY KEY (wiki, name)
+);
+
+CREATE TABLE IF NOT EXISTS tags (
+	wiki TEXT NOT NULL,
+	page TEXT NOT NULL,
+	tag TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS tags_tag ON tags (wiki, tag);
+CREATE INDEX IF NOT EXISTS tags_page ON tags (wiki, page);
+
+CREATE TABLE IF NOT EXISTS revisions (
+	wiki TEXT NOT NULL,
+	page TEXT NOT NULL,
+	revision INTEGER NOT NULL,
+	global_revision INTEGER NOT NULL,
+	-- null if account is deleted or only username is known
+	author INTEGER,
+	-- set by old metadata which has usernames instead of IDs
+	author_name TEXT,
+	stamp INTEGER,
+	flags TEXT,
+	commentary TEXT
+);
+CREATE INDEX IF NOT EXISTS revisions_page ON revisions (wiki, page);
+CREATE INDEX IF NOT EXISTS revisions_author ON revisions (author);
+
+CREATE TABLE IF NOT EXISTS votes (
+	wiki TEXT NOT NULL,
+	page TEXT NOT NULL,
+	user INTEGER,
+	-- 1 or -1
+	vote INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS votes_page ON votes (wiki, page);
+CREATE INDEX IF NOT EXISTS votes_user ON votes (user);
+
+CREATE TABLE IF NOT EXISTS files (
+	wiki TEXT NOT NULL,
+	page TEXT NOT NULL,
+	file_id INTEGER NOT NULL,
+	name TEXT NOT NULL,
+	url TEXT,
+	size INTEGER,
+	mime TEXT,
+	content TEXT,
+	author INTEGER,
+	stamp INTEGER
+);
+CREATE INDEX IF NOT EXISTS files_page ON files (wiki, page);
+
+CREATE TABLE IF NOT EXISTS forum_categories (
+	wiki TEXT NOT NULL,
+	id INTEGER NOT NULL,
+	title TEXT,
+	description TEXT,
+	posts INTEGER,
+	threads INTEGER,
+	last INTEGER,
+	last_user INTEGER,
+	PRIMARY KEY (wiki, id)
+);
+
+CREATE TABLE IF NOT EXISTS forum_threads (
+	wiki TEXT NOT NULL,
+	category INTEGER NOT NULL,
+	id INTEGER NOT NULL,
+	title TEXT,
+	description TEXT,
+	started INTEGER,
+	started_by INTEGER,
+	last INTEGER,
+	last_user INTEGER,
+	posts INTEGER,
+	sticky INTEGER,
+	locked INTEGER,
+	PRIMARY KEY (wiki, id)
+);
+CREATE INDEX IF NOT EXISTS forum_threads_category ON forum_threads (wiki, category);
+
+CREATE TABLE IF NOT EXISTS forum_posts (
+	wiki TEXT NOT NULL,
+	category INTEGER NOT NULL,
+	thread INTEGER NOT NULL,
+	id INTEGER NOT NULL,
+	-- null for top level posts
+	parent INTEGER,
+	title TEXT,
+	poster INTEGER,
+	stamp INTEGER,
+	last_edit INTEGER,
+	last_edit_by INTEGER,
+	revisions INTEGER,
+	PRIMARY KEY (wiki, id)
+);
+CREATE INDEX IF NOT EXISTS forum_posts_thread ON forum_posts (wiki, thread);
+CREATE INDEX IF NOT EXISTS forum_posts_poster ON forum_posts (poster);
+`
+
+const wikiTables = ['pages', 'tags', 'revisions', 'votes', 'files', 'forum_categories', 'forum_threads', 'forum_posts']
+
+function userId(value: number | string | null | undefined) {
+	return typeof value == 'number' ? value : null
+}
+
+/**
+ * SQLite database with metadata of stored pages, forums and users, kept in memory and written to disk by save()
+ */
+export class ArchiveDatabase {
+	private constructor(private readonly database: Database, public readonly path: string) {
+
+	}
+
+	/**
+	 * Opens database at path, or creates new one if it does not exist
+	 */
+	public static async open(path: string) {
+		const SQL = await initSqlJs()
+		let data: Buffer | undefined
+
+		try {
+			data = await promises.readFile(path)
+		} catch(err) {
+			if ((err as NodeJS.ErrnoException).code != 'ENOENT') {
+				throw err
+			}
+		}
+
+		const database = new SQL.Database(data)
+		database.exec(schema)
+		return new ArchiveDatabase(database, path)
+	}
+
+	private insert(table: string, row: {[key: string]: SqlValue | boolean | undefined}) {
+		const keys = Object.keys(row)
+		const values: SqlValue[] = keys.map(key => {
+			const value = row[key]
+			return typeof value == 'boolean' ? (value ? 1 : 0) : value ?? null
+		})
+
+		this.database.run(`INSERT OR REPLACE INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`, values)
+	}
+
+	/**
+	 * Replaces every row of wiki with its current metadata, without accessing network
+	 *
+	 * @returns amount of indexed pages
+	 */
+	public async indexWiki(name: string, wiki: WikiDot) {
+		this.database.run('BEGIN')
+
+		try {
+			for (const table of wikiTables) {
+				this.database.run(`DELETE FROM ${table} WHERE wiki = ?`, [name])
+			}
+
+			let pages = 0
+
+			for (const page of (await wiki.readSiteMap())?.keys() ?? []) {
+				const meta = await wiki.readPageMetadata(page)
+
+				if (meta === null) {
+					continue
+				}
+
+				this.insert('pages', {wiki: name, name: meta.name, page_id: meta.page_id, title: meta.title, parent: meta.parent, rating: meta.rating, is_locked: meta.is_locked, forum_thread: meta.forum_thread, sitemap_update: meta.sitemap_update})
+
+				for (const tag of meta.tags ?? []) {
+					this.insert('tags', {wiki: name, page: meta.name, tag: tag})
+				}
+
+				for (const revision of meta.revisions) {
+					this.insert('revisions', {
+						wiki: name,
+						page: meta.name,
+						revision: revision.revision,
+						global_revision: revision.global_revision,
+						author: userId(revision.author),
+						author_name: typeof revision.author == 'string' ? revision.author : null,
+						stamp: revision.stamp,
+						flags: revision.flags,
+						commentary: revision.commentary
+					})
+				}
+
+				for (const [user, vote] of meta.votings ?? []) {
+					this.insert('votes', {wiki: name, page: meta.name, user: user, vote: vote ? 1 : -1})
+				}
+
+				for (const file of meta.files) {
+					this.insert('files', {wiki: name, page: meta.name, file_id: file.file_id, name: file.name, url: file.url, size: file.size_bytes, mime: file.mime, content: file.content, author: userId(file.author), stamp: file.stamp})
+				}
+
+				pages++
+			}
+
+			for (const category of Object.values(await wiki.readForumCategories())) {
+				this.insert('forum_categories', {wiki: name, id: category.id, title: category.title, description: category.description, posts: category.posts, threads: category.threads, last: category.last, last_user: userId(category.lastUser)})
+
+				for (const id of await wiki.readForumThreadList(category.id)) {
+					const thread = await wiki.readForumThread(category.id, id)
+
+					if (thread === null) {
+						continue
+					}
+
+					this.insert('forum_threads', {wiki: name, category: category.id, id: thread.id, title: thread.title, description: thread.description, started: thread.started, started_by: userId(thread.startedUser), last: thread.last, last_user: userId(thread.lastUser), posts: thread.postsNum, sticky: thread.sticky, locked: thread.isLocked})
+
+					const walk = (posts: LocalForumPost[], parent: number | null) => {
+						for (const post of posts) {
+							this.insert('forum_posts', {wiki: name, category: category.id, thread: thread.id, id: post.id, parent: parent, title: post.title, poster: userId(post.poster), stamp: post.stamp, last_edit: post.lastEdit, last_edit_by: userId(post.lastEditBy), revisions: post.revisions.length})
+							walk(post.children, post.id)
+						}
+					}
+
+					walk(thread.posts, null)
+				}
+			}
+
+			this.database.run('COMMIT')
+			return pages
+		} catch(err) {
+			this.database.run('ROLLBACK')
+			throw err
+		}
+	}
+
+	/**
+	 * Replaces users with contents of stored user list
+	 *
+	 * @returns amount of indexed users
+	 */
+	public async indexUsers(userList: WikiDotUserList) {
+		let users: Map<number, User>
+
+		try {
+			users = (await userList.loadMapping())[1]
+		} catch(err) {
+			// user list was never fetched
+			return 0
+		}
+
+		this.database.run('BEGIN')
+
+		try {
+			this.database.run('DELETE FROM users')
+
+			for (const [id, user] of users) {
+				this.insert('users', {user_id: id, username: user.username, full_name: user.full_name, real_name: user.real_name, wikidot_user_since: user.wikidot_user_since, account_type: user.account_type, activity: user.activity, fetched_at: user.fetched_at})
+			}
+
+			this.database.run('COMMIT')
+		} catch(err) {
+			this.database.run('ROLLBACK')
+			throw err
+		}
+
+		return users.size
+	}
+
+	/**
+	 * Runs single SQL statement
+	 *
+	 * @returns rows as objects keyed by column names
+	 */
+	public *query(sql: string, params?: BindParams): Generator<{[column: string]: SqlValue}> {
+		const statement = this.database.prepare(sql, params)
+
+		try {
+			while (statement.step()) {
+				yield statement.getAsObject()
+			}
+		} finally {
+			statement.free()
+		}
+	}
+
+	public async save() {
+		await writeFileAtomic(this.path, Buffer.from(this.database.export()), false)
+	}
+
+	public close() {
+		this.database.close()
+	}
+}
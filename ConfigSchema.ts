@@ -0,0 +1,363 @@
+
+import { WikiDot } from './WikiDot'
+import { compilePattern, pagePolicies } from './PageRules'
+import { CronExpression } from './Cron'
+
+import path = require('path')
+
+export type SchemaType =
+	{type: 'string', nonEmpty?: boolean, url?: boolean, oneOf?: string[]} |
+	{type: 'number', integer?: boolean, min?: number, above?: number, max?: number, nullable?: boolean} |
+	{type: 'boolean'} |
+	{type: 'object', fields: {[key: string]: SchemaField}, nullable?: boolean} |
+	{type: 'array', items: SchemaType} |
+	// value is checked against variant of the same type
+	{type: 'union', variants: SchemaType[]}
+
+export interface SchemaField {
+	schema: SchemaType
+	required?: boolean
+}
+
+export interface ValidationResult {
+	errors: string[]
+	warnings: string[]
+}
+
+// null is the same as absent proxy
+const proxySchema: SchemaType = {
+	type: 'object',
+	nullable: true,
+	fields: {
+		address: {schema: {type: 'string', nonEmpty: true}, required: true},
+		port: {schema: {type: 'number', integer: true, min: 1, max: 65535}, required: true},
+	}
+}
+
+// options which can be overridden by each wiki
+const wikiOptionFields: {[key: string]: SchemaField} = {
+	ratelimit: {schema: {
+		type: 'object',
+		fields: {
+			bucket_size: {schema: {type: 'number', integer: true, above: 0}, required: true},
+			refill_seconds: {schema: {type: 'number', above: 0}, required: true},
+		}
+	}},
+
+	delay_ms: {schema: {type: 'number', min: 0}},
+	maximum_jobs: {schema: {type: 'number', integer: true, above: 0, nullable: true}},
+	http_proxy: {schema: proxySchema},
+	socks_proxy: {schema: proxySchema},
+	blacklist: {schema: {type: 'array', items: {type: 'string', nonEmpty: true}}},
+	content: {schema: {type: 'array', items: {type: 'string', oneOf: WikiDot.contentTypes}}},
+
+	page_rules: {schema: {type: 'array', items: {type: 'union', variants: [
+		{type: 'string', nonEmpty: true},
+		{type: 'object', fields: {
+			pattern: {schema: {type: 'string', nonEmpty: true}, required: true},
+			policy: {schema: {type: 'string', oneOf: pagePolicies}},
+		}},
+	]}}},
+
+	page_rules_mode: {schema: {type: 'string', oneOf: ['blacklist', 'whitelist']}},
+
+	schedule: {schema: {
+		type: 'object',
+		fields: {
+			interval: {schema: {type: 'number', above: 0}},
+			cron: {schema: {type: 'string', nonEmpty: true}},
+			jitter: {schema: {type: 'number', min: 0}},
+			incremental: {schema: {type: 'boolean'}},
+		}
+	}},
+
+	tombstones: {schema: {type: 'boolean'}},
+	search_index: {schema: {type: 'boolean'}},
+}
+
+export const wikiSchema: SchemaType = {
+	type: 'object',
+	fields: {
+		name: {schema: {type: 'string', nonEmpty: true}, required: true},
+		url: {schema: {type: 'string', url: true}, required: true},
+		enabled: {schema: {type: 'boolean'}},
+		...wikiOptionFields,
+	}
+}
+
+/**
+ * Describes IDaemonConfig
+ */
+export const configSchema: SchemaType = {
+	type: 'object',
+	fields: {
+		base_directory: {schema: {type: 'string', nonEmpty: true}, required: true},
+		wikis: {schema: {type: 'array', items: wikiSchema}, required: true},
+
+		user_list_cache_freshness: {schema: {type: 'number', min: 0}},
+		incremental: {schema: {type: 'boolean'}},
+		incremental_max_age: {schema: {type: 'number', above: 0}},
+
+		control_server: {schema: {
+			type: 'object',
+			fields: {
+				reply: {schema: {type: 'string', nonEmpty: true}, required: true},
+				publish: {schema: {type: 'string', nonEmpty: true}, required: true},
+			}
+		}},
+
+		...wikiOptionFields,
+	}
+}
+
+function describe(value: any) {
+	if (value === null) {
+		return 'null'
+	}
+
+	if (Array.isArray(value)) {
+		return 'array'
+	}
+
+	return typeof value
+}
+
+function isHttpUrl(value: string) {
+	try {
+		const url = new URL(value)
+		return (url.protocol == 'http:' || url.protocol == 'https:') && url.hostname != ''
+	} catch(err) {
+		return false
+	}
+}
+
+/**
+ * Validates value against schema, appending problems to result
+ *
+ * @param where path of value, used as prefix of messages
+ */
+export function validateSchema(value: any, schema: SchemaType, where: string, result: ValidationResult) {
+	switch (schema.type) {
+		case 'string':
+			if (typeof value != 'string') {
+				result.errors.push(`${where} must be a string, got ${describe(value)}`)
+			} else if (schema.url && !isHttpUrl(value)) {
+				result.errors.push(`${where} must be an http(s) URL`)
+			} else if (schema.nonEmpty && value.trim() == '') {
+				result.errors.push(`${where} must not be empty`)
+			} else if (schema.oneOf !== undefined && !schema.oneOf.includes(value)) {
+				result.errors.push(`${where} must be one of ${schema.oneOf.join(', ')}`)
+			}
+
+			break
+
+		case 'number':
+			if (value === null && schema.nullable) {
+				break
+			}
+
+			if (typeof value != 'number' || !isFinite(value)) {
+				result.errors.push(`${where} must be a number, got ${describe(value)}`)
+			} else if (schema.integer && !Number.isInteger(value)) {
+				result.errors.push(`${where} must be an integer`)
+			} else if (schema.above !== undefined && value <= schema.above) {
+				result.errors.push(`${where} must be > ${schema.above}`)
+			} else if (schema.min !== undefined && value < schema.min) {
+				result.errors.push(`${where} must be >= ${schema.min}`)
+			} else if (schema.max !== undefined && value > schema.max) {
+				result.errors.push(`${where} must be <= ${schema.max}`)
+			}
+
+			break
+
+		case 'boolean':
+			if (typeof value != 'boolean') {
+				result.errors.push(`${where} must be a boolean, got ${describe(value)}`)
+			}
+
+			break
+
+		case 'array':
+			if (!Array.isArray(value)) {
+				result.errors.push(`${where} must be an array, got ${describe(value)}`)
+				break
+			}
+
+			for (let i = 0; i < value.length; i++) {
+				validateSchema(value[i], schema.items, `${where}[${i}]`, result)
+			}
+
+			break
+
+		case 'object': {
+			if (value === null && schema.nullable) {
+				break
+			}
+
+			if (typeof value != 'object' || value === null || Array.isArray(value)) {
+				result.errors.push(`${where == '' ? 'config' : where} must be an object, got ${describe(value)}`)
+				break
+			}
+
+			const prefix = where == '' ? '' : `${where}.`
+
+			for (const key in schema.fields) {
+				const field = schema.fields[key]
+
+				if (value[key] === undefined) {
+					if (field.required) {
+						result.errors.push(`${prefix}${key} is required`)
+					}
+
+					continue
+				}
+
+				validateSchema(value[key], field.schema, `${prefix}${key}`, result)
+			}
+
+			for (const key in value) {
+				if (!(key in schema.fields)) {
+					result.warnings.push(`${prefix}${key} is not a known option and is ignored`)
+				}
+			}
+
+			break
+		}
+
+		case 'union': {
+			const variant = schema.variants.find(variant => variant.type == describe(value))
+
+			if (variant === undefined) {
+				result.errors.push(`${where} must be ${schema.variants.map(variant => (variant.type == 'object' || variant.type == 'array' ? 'an ' : 'a ') + variant.type).join(' or ')}, got ${describe(value)}`)
+			} else {
+				validateSchema(value, variant, where, result)
+			}
+
+			break
+		}
+	}
+}
+
+/**
+ * Reports patterns which are not valid regular expressions
+ */
+function validatePageRules(rules: any, where: string, result: ValidationResult) {
+	if (!Array.isArray(rules)) {
+		return
+	}
+
+	for (let i = 0; i < rules.length; i++) {
+		const pattern = typeof rules[i] == 'string' ? rules[i] : rules[i]?.pattern
+		const location = typeof rules[i] == 'string' ? `${where}[${i}]` : `${where}[${i}].pattern`
+
+		if (typeof pattern != 'string') {
+			continue
+		}
+
+		try {
+			compilePattern(pattern)
+		} catch(err) {
+			result.errors.push(`${location} is not a valid regular expression: ${(err as Error).message}`)
+		}
+	}
+}
+
+/**
+ * Reports schedules with invalid cron expression or without exactly one of interval and cron
+ */
+function validateSchedule(schedule: any, where: string, result: ValidationResult) {
+	if (typeof schedule != 'object' || schedule === null) {
+		return
+	}
+
+	if (schedule.interval !== undefined && schedule.cron !== undefined) {
+		result.errors.push(`${where} must have either interval or cron, not both`)
+	} else if (schedule.interval === undefined && schedule.cron === undefined) {
+		result.errors.push(`${where} must have either interval or cron`)
+	}
+
+	if (typeof schedule.cron == 'string') {
+		try {
+			new CronExpression(schedule.cron)
+		} catch(err) {
+			result.errors.push(`${where}.cron is invalid: ${(err as Error).message}`)
+		}
+	}
+}
+
+/**
+ * Validates parsed config file, including checks which can not be expressed by schema
+ */
+export function validateConfig(data: any): ValidationResult {
+	const result: ValidationResult = {errors: [], warnings: []}
+
+	validateSchema(data, configSchema, '', result)
+
+	if (typeof data != 'object' || data === null) {
+		return result
+	}
+
+	validatePageRules(data.page_rules, 'page_rules', result)
+	validateSchedule(data.schedule, 'schedule', result)
+
+	if (typeof data.base_directory != 'string' || !Array.isArray(data.wikis)) {
+		return result
+	}
+
+	if (data.wikis.length == 0) {
+		result.warnings.push('wikis is empty, there is nothing to back up')
+	}
+
+	const names = new Map<string, number>()
+	const directories = new Map<string, number>()
+	const urls = new Map<string, number>()
+	const users = path.resolve(data.base_directory, '_users')
+
+	for (let i = 0; i < data.wikis.length; i++) {
+		const {name, url, page_rules, schedule} = data.wikis[i] ?? {}
+		validatePageRules(page_rules, `wikis[${i}].page_rules`, result)
+		validateSchedule(schedule, `wikis[${i}].schedule`, result)
+
+		// already reported by schema
+		if (typeof name != 'string' || name == '') {
+			continue
+		}
+
+		const sameName = names.get(name)
+
+		if (sameName !== undefined) {
+			result.errors.push(`wikis[${i}].name duplicates name of wikis[${sameName}]`)
+		} else {
+			names.set(name, i)
+		}
+
+		const directory = path.resolve(data.base_directory, name)
+		const sameDirectory = directories.get(directory.toLowerCase())
+
+		if (directory == users) {
+			result.errors.push(`wikis[${i}].name points to ${directory}, which is used by user list`)
+		} else if (!directory.startsWith(path.resolve(data.base_directory) + path.sep)) {
+			result.errors.push(`wikis[${i}].name points to ${directory}, which is outside of base_directory`)
+		} else if (sameDirectory === undefined) {
+			directories.set(directory.toLowerCase(), i)
+		} else if (sameName === undefined) {
+			// different spelling (or only case on case-insensitive filesystems) of the same directory
+			result.errors.push(`wikis[${i}].name shares directory with wikis[${sameDirectory}]`)
+		}
+
+		if (typeof url != 'string' || !isHttpUrl(url)) {
+			continue
+		}
+
+		const normalizedUrl = new URL(url).host.toLowerCase()
+		const sameUrl = urls.get(normalizedUrl)
+
+		if (sameUrl !== undefined) {
+			result.warnings.push(`wikis[${i}].url points to the same wiki as wikis[${sameUrl}]`)
+		} else {
+			urls.set(normalizedUrl, i)
+		}
+	}
+
+	return result
+}
@@ -0,0 +1,413 @@
+
+import { Publisher, Reply } from 'zeromq'
+import { DaemonConfig } from './DaemonConfig'
+import { Lock, WikiDot, WorkAbortedError } from './WikiDot'
+import { WikiDotUserList } from './WikidotUserList'
+import { Scheduler } from './Scheduler'
+
+import http = require('http')
+import https = require('https')
+
+export type JobState = 'idle' | 'running' | 'finished' | 'failed' | 'aborted'
+
+export interface WikiStatus {
+	name: string
+	url: string
+	state: JobState
+	started?: number
+	finished?: number
+	error?: string
+	// another backup of this wiki is waiting for current one to finish
+	queued?: boolean
+	next_run?: number
+	last_success?: number
+}
+
+export interface ControlRequest {
+	command: 'start' | 'backup_pages' | 'abort' | 'status' | 'list'
+	wiki?: string
+	pages?: string[]
+	incremental?: boolean
+}
+
+export interface ControlResponse {
+	status: 'ok' | 'error'
+	message?: string
+	[key: string]: any
+}
+
+export const DEFAULT_REPLY_ADDRESS = 'tcp://127.0.0.1:5560'
+export const DEFAULT_PUBLISH_ADDRESS = 'tcp://127.0.0.1:5561'
+
+/**
+ * ZeroMQ server which controls backups of configured wikis
+ *
+ * Requests are JSON objects received on REP socket, replies are JSON objects
+ * with "status" field being either "ok" or "error".
+ *
+ * Events are published on PUB socket as two frames: topic and JSON body.
+ */
+export class ControlServer {
+	private readonly reply = new Reply()
+	private readonly publisher = new Publisher()
+	private publishing: Promise<void> = Promise.resolve()
+
+	private readonly wikis = new Map<string, WikiDot>()
+	private readonly status = new Map<string, WikiStatus>()
+	// last started (or queued) job of each wiki
+	private readonly jobs = new Map<string, Promise<JobState>>()
+	private readonly queued = new Set<string>()
+	// held by running job of wiki, so jobs of the same wiki never run concurrently
+	private readonly wikiLocks = new Map<string, Lock>()
+	private readonly lock = new Lock()
+
+	public readonly scheduler: Scheduler
+
+	constructor(
+		public readonly config: DaemonConfig,
+		public readonly userList: WikiDotUserList,
+		private httpsagent?: https.Agent,
+		private httpagent?: http.Agent
+	) {
+		for (const {name, url} of config.wikis) {
+			this.status.set(name, {name: name, url: url, state: 'idle'})
+		}
+
+		this.scheduler = new Scheduler(config, (name, incremental) => this.runScheduledJob(name, incremental))
+	}
+
+	public get replyAddress() {
+		return this.config.control_server?.reply ?? DEFAULT_REPLY_ADDRESS
+	}
+
+	public get publishAddress() {
+		return this.config.control_server?.publish ?? DEFAULT_PUBLISH_ADDRESS
+	}
+
+	private log(str: string) {
+		process.stdout.write(`[Control Server]: ${str}\n`)
+	}
+
+	private error(str: string) {
+		process.stderr.write(`[Control Server]: ${str}\n`)
+	}
+
+	/**
+	 * Publishes event on PUB socket. ZeroMQ sockets do not allow concurrent sends,
+	 * so events are chained one after another
+	 */
+	public publish(topic: string, data: any) {
+		const body = JSON.stringify(data)
+
+		this.publishing = this.publishing.then(() => this.publisher.send([topic, body])).catch(err => {
+			this.error(`Unable to publish ${topic} event: ${err}`)
+		})
+	}
+
+	/**
+	 * Returns WikiDot object of specified wiki, created once and reused between jobs
+	 */
+	private getWiki(name: string) {
+		let wiki = this.wikis.get(name)
+
+		if (wiki !== undefined) {
+			return wiki
+		}
+
+		const entry = this.config.wikis.find(value => value.name == name)
+
+		if (entry === undefined) {
+			return null
+		}
+
+		wiki = this.config.makeWiki(entry, this.userList, true, this.httpsagent, this.httpagent)
+
+		this.wikis.set(name, wiki)
+		this.forwardEvents(name, wiki)
+		return wiki
+	}
+
+	/**
+	 * Republishes progress events of WikiDot on PUB socket, with bulky data stripped
+	 */
+	private forwardEvents(name: string, wiki: WikiDot) {
+		wiki.on('log', message => this.publish('log', {wiki: name, message: message}))
+		wiki.on('failure', event => this.publish('failure', {wiki: name, ...event}))
+		wiki.on('phase', event => this.publish('phase', {wiki: name, ...event}))
+		wiki.on('sitemap', event => this.publish('sitemap', {wiki: name, ...event}))
+		wiki.on('file', event => this.publish('file', {wiki: name, ...event}))
+
+		wiki.on('page', event => this.publish('page', {
+			wiki: name,
+			page: event.page,
+			page_id: event.meta.page_id,
+			revisions: event.meta.revisions.length
+		}))
+
+		wiki.on('revision', event => this.publish('revision', {
+			wiki: name,
+			page: event.page,
+			revision: event.revision.revision,
+			global_revision: event.revision.global_revision
+		}))
+
+		wiki.on('thread', event => this.publish('thread', {
+			wiki: name,
+			category: event.category,
+			thread: event.thread.id,
+			title: event.thread.title,
+			posts: event.thread.postsNum
+		}))
+	}
+
+	private wikiLock(name: string) {
+		let lock = this.wikiLocks.get(name)
+
+		if (lock === undefined) {
+			lock = new Lock()
+			this.wikiLocks.set(name, lock)
+		}
+
+		return lock
+	}
+
+	/**
+	 * @param pages if specified, only these pages are backed up instead of entire wiki
+	 * @param queued whenever job waits for running job of the same wiki
+	 */
+	private async runJob(name: string, wiki: WikiDot, pages?: string[], incremental?: boolean, queued = false): Promise<JobState> {
+		const status = this.status.get(name)!
+		const lock = this.wikiLock(name)
+
+		await lock.lock()
+
+		try {
+			if (queued) {
+				status.queued = false
+
+				if (!this.queued.delete(name)) {
+					// aborted while waiting
+					return 'aborted'
+				}
+			}
+
+			status.state = 'running'
+			status.started = Date.now()
+			status.finished = undefined
+			status.error = undefined
+
+			this.log(`Starting backup of ${name}`)
+			this.publish('job', this.describe(name))
+
+			try {
+				wiki.queue!.resume()
+				await wiki.fetchToken()
+
+				if (pages !== undefined) {
+					const failed = await wiki.backupPages(pages)
+
+					if (failed.length != 0) {
+						throw new Error(`Failed to back up ${failed.join(', ')}`)
+					}
+				} else {
+					await wiki.workLoop(this.lock, this.config.makeWorkLoopOptions(incremental))
+				}
+
+				status.state = 'finished'
+				this.log(`Backup of ${name} finished`)
+			} catch(err) {
+				if (err instanceof WorkAbortedError) {
+					status.state = 'aborted'
+					this.log(`Backup of ${name} was aborted`)
+				} else {
+					status.state = 'failed'
+					status.error = String(err)
+					this.error(`Backup of ${name} failed`)
+					this.error(String(err))
+				}
+			} finally {
+				status.finished = Date.now()
+				this.publish('job', this.describe(name))
+			}
+
+			return status.state
+		} finally {
+			lock.release()
+		}
+	}
+
+	/**
+	 * @param queue if backup of wiki is already running, wait for it to finish instead of failing
+	 * @returns response and promise of job, which resolves with its final state
+	 */
+	private launchJob(name: string, pages?: string[], incremental?: boolean, queue = false): [ControlResponse, Promise<JobState> | null] {
+		const running = this.jobs.has(name)
+
+		if (running && !queue) {
+			return [{status: 'error', message: `Backup of ${name} is already running`}, null]
+		}
+
+		if (running && this.queued.has(name)) {
+			return [{status: 'error', message: `Backup of ${name} is already queued`}, null]
+		}
+
+		const wiki = this.getWiki(name)
+
+		if (wiki === null) {
+			return [{status: 'error', message: `Unknown wiki ${name}`}, null]
+		}
+
+		if (running) {
+			this.queued.add(name)
+			this.status.get(name)!.queued = true
+			this.log(`Backup of ${name} is queued`)
+		}
+
+		const job: Promise<JobState> = this.runJob(name, wiki, pages, incremental, running).finally(() => {
+			if (this.jobs.get(name) === job) {
+				this.jobs.delete(name)
+			}
+		})
+
+		this.jobs.set(name, job)
+		return [{status: 'ok', wiki: this.describe(name)}, job]
+	}
+
+	public startJob(name: string, pages?: string[], incremental?: boolean): ControlResponse {
+		return this.launchJob(name, pages, incremental)[0]
+	}
+
+	/**
+	 * Starts backup of wiki, or queues it after already running one
+	 *
+	 * @returns final state of job, or null if job is already queued
+	 */
+	public async runScheduledJob(name: string, incremental?: boolean): Promise<JobState | null> {
+		const [response, job] = this.launchJob(name, undefined, incremental, true)
+
+		if (job === null) {
+			this.error(`Not starting scheduled backup: ${response.message}`)
+			return null
+		}
+
+		return await job
+	}
+
+	/**
+	 * Returns status of wiki along with its schedule
+	 */
+	public describe(name: string): WikiStatus {
+		return {
+			...this.status.get(name)!,
+			next_run: this.scheduler.nextRun(name),
+			last_success: this.scheduler.record(name)?.last_success,
+		}
+	}
+
+	public abortJob(name: string): ControlResponse {
+		const wiki = this.wikis.get(name)
+
+		if (wiki === undefined || !this.jobs.has(name)) {
+			return {status: 'error', message: `Backup of ${name} is not running`}
+		}
+
+		if (this.queued.delete(name)) {
+			this.status.get(name)!.queued = false
+		}
+
+		wiki.abort()
+		return {status: 'ok'}
+	}
+
+	public async handle(request: ControlRequest): Promise<ControlResponse> {
+		switch (request.command) {
+			case 'list':
+				return {status: 'ok', wikis: this.config.wikis.map(({name, url, enabled}) => ({name: name, url: url, enabled: enabled ?? true}))}
+
+			case 'status':
+				if (request.wiki !== undefined) {
+					if (!this.status.has(request.wiki)) {
+						return {status: 'error', message: `Unknown wiki ${request.wiki}`}
+					}
+
+					return {status: 'ok', wiki: this.describe(request.wiki)}
+				}
+
+				return {status: 'ok', wikis: [...this.status.keys()].map(name => this.describe(name))}
+
+			case 'start':
+				if (typeof request.wiki != 'string') {
+					return {status: 'error', message: 'No wiki specified'}
+				}
+
+				return this.startJob(request.wiki, undefined, request.incremental)
+
+			case 'backup_pages':
+				if (typeof request.wiki != 'string') {
+					return {status: 'error', message: 'No wiki specified'}
+				}
+
+				if (!Array.isArray(request.pages) || request.pages.length == 0) {
+					return {status: 'error', message: 'No pages specified'}
+				}
+
+				return this.startJob(request.wiki, request.pages)
+
+			case 'abort':
+				if (typeof request.wiki != 'string') {
+					return {status: 'error', message: 'No wiki specified'}
+				}
+
+				return this.abortJob(request.wiki)
+
+			default:
+				return {status: 'error', message: `Unknown command ${(request as {command: unknown}).command}`}
+		}
+	}
+
+	/**
+	 * Binds sockets and serves requests until server is closed
+	 */
+	public async listen() {
+		await this.reply.bind(this.replyAddress)
+		await this.publisher.bind(this.publishAddress)
+
+		this.log(`Listening for requests on ${this.replyAddress}, publishing events on ${this.publishAddress}`)
+		await this.scheduler.start()
+
+		for await (const [message] of this.reply) {
+			let response: ControlResponse
+
+			try {
+				response = await this.handle(JSON.parse(message.toString('utf-8')))
+			} catch(err) {
+				response = {status: 'error', message: String(err)}
+			}
+
+			await this.reply.send(JSON.stringify(response))
+		}
+	}
+
+	/**
+	 * Cancels scheduled and queued jobs, aborts running ones, waits for them to finish and closes sockets
+	 */
+	public async close() {
+		await this.scheduler.stop()
+		this.queued.clear()
+
+		for (const name of this.jobs.keys()) {
+			this.wikis.get(name)?.abort()
+		}
+
+		await Promise.allSettled(this.jobs.values())
+		await this.publishing
+
+		for (const wiki of this.wikis.values()) {
+			await wiki.flush()
+			wiki.client?.ratelimit?.stopTimer()
+		}
+
+		this.reply.close()
+		this.publisher.close()
+	}
+}
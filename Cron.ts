@@ -0,0 +1,128 @@
+
+interface CronField {
+	min: number
+	max: number
+}
+
+const fields: CronField[] = [
+	{min: 0, max: 59}, // minute
+	{min: 0, max: 23}, // hour
+	{min: 1, max: 31}, // day of month
+	{min: 1, max: 12}, // month
+	{min: 0, max: 7}, // day of week, both 0 and 7 are sunday
+]
+
+const fieldNames = ['minute', 'hour', 'day of month', 'month', 'day of week']
+
+/**
+ * Standard five field cron expression (minute hour day-of-month month day-of-week),
+ * evaluated in local time. Each field supports `*`, numbers, ranges (`1-5`), lists (`1,3`) and steps (`*\/15`, `0-30/10`).
+ */
+export class CronExpression {
+	private readonly values: Set<number>[] = []
+	// if both day of month and day of week are restricted, either of them matching is enough
+	private readonly anyDay: boolean
+
+	/**
+	 * @throws Error if expression is malformed
+	 */
+	constructor(public readonly expression: string) {
+		const parts = expression.trim().split(/\s+/)
+
+		if (parts.length != 5) {
+			throw new Error(`Cron expression must have 5 fields, got ${parts.length}`)
+		}
+
+		for (let i = 0; i < 5; i++) {
+			this.values.push(CronExpression.parseField(parts[i], fields[i], fieldNames[i]))
+		}
+
+		if (this.values[4].has(7)) {
+			this.values[4].add(0)
+		}
+
+		this.anyDay = !parts[2].startsWith('*') && !parts[4].startsWith('*')
+	}
+
+	private static parseField(value: string, field: CronField, name: string) {
+		const result = new Set<number>()
+
+		for (const piece of value.split(',')) {
+			const match = piece.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+
+			if (match == null) {
+				throw new Error(`Invalid ${name} field: ${piece}`)
+			}
+
+			let from = field.min
+			let to = field.max
+			const step = match[4] !== undefined ? parseInt(match[4]) : 1
+
+			if (match[2] !== undefined) {
+				from = parseInt(match[2])
+				// "5/10" means "5-max/10"
+				to = match[3] !== undefined ? parseInt(match[3]) : (match[4] !== undefined ? field.max : from)
+			}
+
+			if (from < field.min || to > field.max || from > to) {
+				throw new Error(`Invalid ${name} range: ${piece}, must be within ${field.min}-${field.max}`)
+			}
+
+			if (step <= 0) {
+				throw new Error(`Invalid ${name} step: ${piece}`)
+			}
+
+			for (let i = from; i <= to; i += step) {
+				result.add(i)
+			}
+		}
+
+		return result
+	}
+
+	private matchesDay(date: Date) {
+		const dayOfMonth = this.values[2].has(date.getDate())
+		const dayOfWeek = this.values[4].has(date.getDay())
+		return this.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek
+	}
+
+	/**
+	 * Returns first moment strictly after specified date which matches expression
+	 */
+	public next(after: Date): Date {
+		const date = new Date(after.getTime())
+		date.setSeconds(0, 0)
+		date.setMinutes(date.getMinutes() + 1)
+
+		// four years cover every combination of month days and week days
+		const limit = after.getTime() + 4 * 366 * 24 * 3600 * 1000
+
+		while (date.getTime() <= limit) {
+			if (!this.values[3].has(date.getMonth() + 1)) {
+				date.setMonth(date.getMonth() + 1, 1)
+				date.setHours(0, 0)
+				continue
+			}
+
+			if (!this.matchesDay(date)) {
+				date.setDate(date.getDate() + 1)
+				date.setHours(0, 0)
+				continue
+			}
+
+			if (!this.values[1].has(date.getHours())) {
+				date.setHours(date.getHours() + 1, 0)
+				continue
+			}
+
+			if (!this.values[0].has(date.getMinutes())) {
+				date.setMinutes(date.getMinutes() + 1)
+				continue
+			}
+
+			return date
+		}
+
+		throw new Error(`Cron expression ${this.expression} never matches`)
+	}
+}
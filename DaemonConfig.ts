@@ -4,6 +4,7 @@
 import { HTTPClient } from "./HTTPClient"
 import { RatelimitBucket } from "./RatelimitBucket"
 import { WikiDotUserList } from "./WikidotUserList"
+import { ContentType, WikiDot, WorkLoopOptions } from "./WikiDot"
 
 // Permission is hereby granted, free of charge, to any person
 // obtaining a copy of this software and associated documentation
@@ -27,36 +28,74 @@ import { WikiDotUserList } from "./WikidotUserList"
 
 import {promises} from 'fs'
 import { PromiseQueue } from "./worker"
+import { PageRule, PageRules, PageRulesMode } from "./PageRules"
+import { ScheduleConfig } from "./Scheduler"
+import { validateConfig } from "./ConfigSchema"
 
 import http = require('http')
 import https = require('https')
 
-export interface IDaemonConfig {
+/**
+ * Options which are set globally and can be overridden by each wiki
+ */
+export interface WikiOptions {
+	ratelimit?: { bucket_size: number, refill_seconds: number }
+	delay_ms?: number
+	maximum_jobs?: number | null
+	http_proxy?: {address: string, port: number} | null
+	socks_proxy?: {address: string, port: number} | null
+	// per-wiki blacklist is added to global one
+	blacklist?: string[]
+	content?: ContentType[]
+	// per-wiki rules are checked before global ones
+	page_rules?: PageRule[]
+	page_rules_mode?: PageRulesMode
+	schedule?: ScheduleConfig
+	// move removed pages and files into graveyard/ instead of deleting them
+	tombstones?: boolean
+	// keep search/ index up to date while archiving
+	search_index?: boolean
+}
+
+export interface WikiEntry extends WikiOptions {
+	name: string
+	url: string
+	// disabled wikis are skipped unless requested by name
+	enabled?: boolean
+}
+
+export interface IDaemonConfig extends WikiOptions {
 	base_directory: string
-	wikis: {name: string, url: string}[]
+	wikis: WikiEntry[]
 
 	user_list_cache_freshness?: number
 
-	ratelimit?: { bucket_size: number, refill_seconds: number }
-	delay_ms?: number
-	maximum_jobs?: number
-	http_proxy?: {address: string, port: number}
-	socks_proxy?: {address: string, port: number}
-	blacklist?: string[]
+	incremental?: boolean
+	incremental_max_age?: number
+	control_server?: {reply: string, publish: string}
 }
 
 export class DaemonConfig implements IDaemonConfig {
 	public base_directory: string
-	public wikis: {name: string, url: string}[]
+	public wikis: WikiEntry[]
 
 	public user_list_cache_freshness?: number
 
 	public ratelimit?: { bucket_size: number, refill_seconds: number }
 	public delay_ms?: number
-	public maximum_jobs?: number
-	public http_proxy?: {address: string, port: number}
-	public socks_proxy?: {address: string, port: number}
+	public maximum_jobs?: number | null
+	public http_proxy?: {address: string, port: number} | null
+	public socks_proxy?: {address: string, port: number} | null
 	public blacklist?: string[]
+	public content?: ContentType[]
+	public page_rules?: PageRule[]
+	public page_rules_mode?: PageRulesMode
+	public schedule?: ScheduleConfig
+	public tombstones?: boolean
+	public search_index?: boolean
+	public incremental?: boolean
+	public incremental_max_age?: number
+	public control_server?: {reply: string, publish: string}
 
 	constructor(loader: IDaemonConfig) {
 		this.base_directory = loader.base_directory
@@ -68,6 +107,15 @@ export class DaemonConfig implements IDaemonConfig {
 		this.http_proxy = loader.http_proxy
 		this.socks_proxy = loader.socks_proxy
 		this.blacklist = loader.blacklist
+		this.content = loader.content
+		this.page_rules = loader.page_rules
+		this.page_rules_mode = loader.page_rules_mode
+		this.schedule = loader.schedule
+		this.tombstones = loader.tombstones
+		this.search_index = loader.search_index
+		this.incremental = loader.incremental
+		this.incremental_max_age = loader.incremental_max_age
+		this.control_server = loader.control_server
 
 		for (const i in this.wikis) {
 			let url = this.wikis[i].url
@@ -78,19 +126,45 @@ export class DaemonConfig implements IDaemonConfig {
 		}
 	}
 
-	public makeClient(connectionLimit: number, httpsagent?: https.Agent, httpagent?: http.Agent) {
+	/**
+	 * Returns options of wiki with its overrides applied over global ones
+	 */
+	public wikiOptions(entry?: WikiEntry): WikiOptions {
+		return {
+			ratelimit: entry?.ratelimit ?? this.ratelimit,
+			delay_ms: entry?.delay_ms ?? this.delay_ms,
+			maximum_jobs: entry?.maximum_jobs !== undefined ? entry.maximum_jobs : this.maximum_jobs,
+			// null of wiki disables global proxy
+			http_proxy: entry !== undefined && 'http_proxy' in entry ? entry.http_proxy : this.http_proxy,
+			socks_proxy: entry !== undefined && 'socks_proxy' in entry ? entry.socks_proxy : this.socks_proxy,
+			blacklist: [...(this.blacklist ?? []), ...(entry?.blacklist ?? [])],
+			content: entry?.content ?? this.content ?? WikiDot.contentTypes,
+			page_rules: [...(entry?.page_rules ?? []), ...(this.page_rules ?? [])],
+			page_rules_mode: entry?.page_rules_mode ?? this.page_rules_mode ?? 'blacklist',
+			schedule: entry?.schedule ?? this.schedule,
+			tombstones: entry?.tombstones ?? this.tombstones ?? false,
+			search_index: entry?.search_index ?? this.search_index ?? false,
+		}
+	}
+
+	/**
+	 * @param entry if specified, client uses rate limit and proxies of this wiki
+	 */
+	public makeClient(connectionLimit: number, httpsagent?: https.Agent, httpagent?: http.Agent, entry?: WikiEntry) {
+		const options = this.wikiOptions(entry)
+
 		const client = new HTTPClient(
 			connectionLimit,
 			httpsagent,
 			httpagent,
-			this.http_proxy?.address,
-			this.http_proxy?.port,
-			this.socks_proxy?.address,
-			this.socks_proxy?.port,
+			options.http_proxy?.address,
+			options.http_proxy?.port,
+			options.socks_proxy?.address,
+			options.socks_proxy?.port,
 		)
 
-		if (this.ratelimit != undefined) {
-			client.ratelimit = new RatelimitBucket(this.ratelimit.bucket_size, this.ratelimit.refill_seconds)
+		if (options.ratelimit != undefined) {
+			client.ratelimit = new RatelimitBucket(options.ratelimit.bucket_size, options.ratelimit.refill_seconds)
 			client.ratelimit.starTimer()
 		}
 
@@ -101,29 +175,115 @@ export class DaemonConfig implements IDaemonConfig {
 		return new WikiDotUserList(this.base_directory + '/_users', this.makeClient(connectionLimit, httpsagent, httpagent), this.user_list_cache_freshness !== undefined ? this.user_list_cache_freshness * 1000 : undefined)
 	}
 
-	public makeQueue() {
-		return new PromiseQueue(this.delay_ms, this.maximum_jobs)
+	public makeWorkLoopOptions(incremental = this.incremental ?? false): WorkLoopOptions {
+		return {
+			incremental: incremental,
+			maxCheckpointAge: this.incremental_max_age !== undefined ? this.incremental_max_age * 1000 : undefined
+		}
+	}
+
+	/**
+	 * Returns configured wikis with specified names, or all enabled ones if no names are given
+	 */
+	public selectWikis(names?: string[]): WikiEntry[] {
+		if (names === undefined || names.length == 0) {
+			return this.wikis.filter(entry => entry.enabled ?? true)
+		}
+
+		return names.map(name => {
+			const entry = this.wikis.find(value => value.name == name)
+
+			if (entry === undefined) {
+				throw new Error(`Unknown wiki ${name}`)
+			}
+
+			return entry
+		})
+	}
+
+	/**
+	 * Creates WikiDot object for configured wiki, in offline mode if online is false
+	 */
+	public makeWiki(entry: WikiEntry, userList: WikiDotUserList | null, online = true, httpsagent?: https.Agent, httpagent?: http.Agent) {
+		const options = this.wikiOptions(entry)
+
+		return new WikiDot(
+			entry.name,
+			entry.url,
+			`${this.base_directory}/${entry.name}`,
+			online ? this.makeClient(8, httpsagent, httpagent, entry) : null,
+			online ? this.makeQueue(entry) : null,
+			userList,
+			true,
+			options.blacklist,
+			options.content,
+			new PageRules(options.page_rules, options.page_rules_mode),
+			options.tombstones,
+			options.search_index
+		)
+	}
+
+	/**
+	 * @param entry if specified, queue uses delay and job limit of this wiki
+	 */
+	public makeQueue(entry?: WikiEntry) {
+		const options = this.wikiOptions(entry)
+		return new PromiseQueue(options.delay_ms, options.maximum_jobs)
 	}
 }
 
-export async function loadConfig(exit = true) {
-	let config: DaemonConfig
+export function configPath(path?: string) {
+	return path !== undefined ? path : (process.env.WIKICOMMA_CONFIG !== undefined ? process.env.WIKICOMMA_CONFIG : 'config.json')
+}
 
-	const argv = process.argv[3]
+export class ConfigError extends Error {
+	constructor(message: string, public readonly errors: string[] = []) {
+		super(errors.length == 0 ? message : `${message}\n${errors.map(error => `  - ${error}`).join('\n')}`)
+	}
+}
+
+/**
+ * Reads and validates config, warnings are printed to stderr
+ *
+ * @param exit whenever to print error and exit instead of throwing ConfigError
+ */
+export async function loadConfig(exit = true, path?: string) {
+	const resolved = configPath(path)
 
 	try {
-		const configPath = argv !== undefined ? argv : (process.env.WIKICOMMA_CONFIG !== undefined ? process.env.WIKICOMMA_CONFIG : 'config.json')
-		const configData = await promises.readFile(configPath, {encoding: 'utf-8'})
-		config = new DaemonConfig(JSON.parse(configData))
+		let configData: string
+
+		try {
+			configData = await promises.readFile(resolved, {encoding: 'utf-8'})
+		} catch(err) {
+			throw new ConfigError(`${resolved} is missing or unreadable (${(err as Error).message}).\nSet a different file using --config or the WIKICOMMA_CONFIG environment variable.`)
+		}
+
+		let data: any
+
+		try {
+			data = JSON.parse(configData)
+		} catch(err) {
+			throw new ConfigError(`${resolved} is not valid JSON: ${(err as Error).message}`)
+		}
+
+		const {errors, warnings} = validateConfig(data)
+
+		for (const warning of warnings) {
+			process.stderr.write(`${resolved}: warning: ${warning}\n`)
+		}
+
+		if (errors.length != 0) {
+			throw new ConfigError(`${resolved} is invalid:`, errors)
+		}
+
+		return new DaemonConfig(data)
 	} catch(err) {
-		if (exit) {
-			process.stderr.write('config.json is missing or invalid from working directory.\n')
-			process.stderr.write('Or set a different file using the WIKICOMMA_CONFIG environment variable.\n')
+		if (exit && err instanceof ConfigError) {
+			process.stderr.write(err.message + '\n')
 			process.exit(1)
-		} else {
-			throw err
 		}
-	}
 
-	return config
+		throw err
+	}
 }
@@ -0,0 +1,265 @@
+
+export interface DiffOp {
+	type: 'equal' | 'insert' | 'delete'
+	line: string
+}
+
+export interface DiffHunk {
+	// first line of hunk in old and new text, counting from 1
+	oldStart: number
+	oldLines: number
+	newStart: number
+	newLines: number
+	ops: DiffOp[]
+}
+
+/**
+ * Myers' algorithm, keeps state of every step to walk path back
+ *
+ * @returns null if texts differ in more than maxEdits lines
+ */
+function myers(a: string[], b: string[], maxEdits: number): DiffOp[] | null {
+	const n = a.length
+	const m = b.length
+	const max = Math.min(n + m, maxEdits)
+	const offset = max + 1
+	const v = new Int32Array(2 * max + 3)
+	// furthest x of every diagonal k in [-d - 1, d + 1], before step d
+	const trace: Int32Array[] = []
+
+	for (let d = 0; d <= max; d++) {
+		trace.push(v.slice(offset - d - 1, offset + d + 2))
+
+		for (let k = -d; k <= d; k += 2) {
+			let x = k == -d || (k != d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+			let y = x - k
+
+			while (x < n && y < m && a[x] == b[y]) {
+				x++
+				y++
+			}
+
+			v[offset + k] = x
+
+			if (x >= n && y >= m) {
+				return backtrack(a, b, trace)
+			}
+		}
+	}
+
+	return null
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]) {
+	const ops: DiffOp[] = []
+	let x = a.length
+	let y = b.length
+
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const step = trace[d]
+		const at = (k: number) => step[k + d + 1]
+		const k = x - y
+		const prevK = k == -d || (k != d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+		const prevX = at(prevK)
+		const prevY = prevX - prevK
+
+		while (x > prevX && y > prevY) {
+			ops.push({type: 'equal', line: a[x - 1]})
+			x--
+			y--
+		}
+
+		if (d > 0) {
+			if (x == prevX) {
+				ops.push({type: 'insert', line: b[prevY]})
+			} else {
+				ops.push({type: 'delete', line: a[prevX]})
+			}
+		}
+
+		x = prevX
+		y = prevY
+	}
+
+	return ops.reverse()
+}
+
+/**
+ * Computes shortest line diff between two texts. If texts differ too much, whole old text
+ * is reported as deleted and whole new text as inserted
+ *
+ * @param maxEdits limits time and memory spent on very different texts
+ */
+export function diffLines(a: string[], b: string[], maxEdits = 2000): DiffOp[] {
+	let start = 0
+
+	while (start < a.length && start < b.length && a[start] == b[start]) {
+		start++
+	}
+
+	let endA = a.length
+	let endB = b.length
+
+	while (endA > start && endB > start && a[endA - 1] == b[endB - 1]) {
+		endA--
+		endB--
+	}
+
+	const middleA = a.slice(start, endA)
+	const middleB = b.slice(start, endB)
+
+	const middle = myers(middleA, middleB, maxEdits) ?? [
+		...middleA.map(line => {return {type: 'delete', line: line} as DiffOp}),
+		...middleB.map(line => {return {type: 'insert', line: line} as DiffOp}),
+	]
+
+	return [
+		...a.slice(0, start).map(line => {return {type: 'equal', line: line} as DiffOp}),
+		...middle,
+		...a.slice(endA).map(line => {return {type: 'equal', line: line} as DiffOp}),
+	]
+}
+
+export function splitLines(text: string) {
+	const lines = text.split(/\r?\n/)
+
+	// trailing newline does not start another line
+	if (lines.length != 0 && lines[lines.length - 1] == '') {
+		lines.pop()
+	}
+
+	return lines
+}
+
+/**
+ * Groups changes into hunks, with up to context unchanged lines around each change
+ */
+export function diffHunks(ops: DiffOp[], context = 3): DiffHunk[] {
+	const hunks: DiffHunk[] = []
+	let oldLine = 1
+	let newLine = 1
+	let current: DiffHunk | null = null
+	// unchanged lines since last change
+	let trailing = 0
+
+	for (let i = 0; i < ops.length; i++) {
+		const op = ops[i]
+
+		if (op.type != 'equal') {
+			if (current === null) {
+				const before = Math.min(context, i, oldLine - 1, newLine - 1)
+
+				current = {
+					oldStart: oldLine - before,
+					oldLines: before,
+					newStart: newLine - before,
+					newLines: before,
+					ops: ops.slice(i - before, i)
+				}
+
+				hunks.push(current)
+			}
+
+			current.ops.push(op)
+			trailing = 0
+
+			if (op.type == 'delete') {
+				current.oldLines++
+				oldLine++
+			} else {
+				current.newLines++
+				newLine++
+			}
+
+			continue
+		}
+
+		if (current !== null) {
+			// hunks closer than twice the context are merged
+			let nextChange = i
+
+			while (nextChange < ops.length && ops[nextChange].type == 'equal' && nextChange - i <= context) {
+				nextChange++
+			}
+
+			if (trailing < context || (nextChange < ops.length && ops[nextChange].type != 'equal')) {
+				current.ops.push(op)
+				current.oldLines++
+				current.newLines++
+				trailing++
+			} else {
+				current = null
+			}
+		}
+
+		oldLine++
+		newLine++
+	}
+
+	return hunks
+}
+
+/**
+ * Splits text into words, runs of whitespace and single other characters, so joining them gives text back
+ */
+export function splitWords(text: string) {
+	return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? []
+}
+
+/**
+ * Word level diff, line field of every operation holds word
+ */
+export function diffWords(a: string, b: string, maxEdits = 2000): DiffOp[] {
+	return diffLines(splitWords(a), splitWords(b), maxEdits)
+}
+
+function hunkRange(start: number, lines: number) {
+	if (lines == 0) {
+		// empty range points at line before it
+		return `${start - 1},0`
+	}
+
+	return lines == 1 ? `${start}` : `${start},${lines}`
+}
+
+export function formatHunkHeader(hunk: DiffHunk) {
+	return `@@ -${hunkRange(hunk.oldStart, hunk.oldLines)} +${hunkRange(hunk.newStart, hunk.newLines)} @@`
+}
+
+/**
+ * Formats hunks in unified diff format
+ */
+export function formatUnified(hunks: DiffHunk[], oldName: string, newName: string) {
+	const lines = [`--- ${oldName}`, `+++ ${newName}`]
+
+	for (const hunk of hunks) {
+		lines.push(formatHunkHeader(hunk))
+
+		for (const op of hunk.ops) {
+			lines.push((op.type == 'equal' ? ' ' : op.type == 'insert' ? '+' : '-') + op.line)
+		}
+	}
+
+	return lines.join('\n') + '\n'
+}
+
+/**
+ * Formats word level diff the way git --word-diff=plain does, as [-removed-]{+added+}
+ */
+export function formatWordDiff(ops: DiffOp[]) {
+	let result = ''
+	let i = 0
+
+	while (i < ops.length) {
+		const type = ops[i].type
+		let text = ''
+
+		for (; i < ops.length && ops[i].type == type; i++) {
+			text += ops[i].line
+		}
+
+		result += type == 'equal' ? text : type == 'delete' ? `[-${text}-]` : `{+${text}+}`
+	}
+
+	return result
+}
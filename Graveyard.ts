@@ -0,0 +1,173 @@
+
+import { FileMeta } from './WikiDot'
+import { StorageBackend } from './StorageBackend'
+
+/**
+ * page - page was removed from wiki
+ * replaced_page - page was deleted and another one was created under the same name
+ * file - file was removed from page
+ */
+export type TombstoneKind = 'page' | 'replaced_page' | 'file'
+
+export interface Tombstone {
+	// directory of entry inside graveyard, e.g. 2023-05-01/1682899200000-page-scp-173
+	id: string
+	kind: TombstoneKind
+	page: string
+	// when it was moved into graveyard
+	stamp: number
+	// moved files and directories, relative to root of wiki
+	paths: string[]
+	// metadata of removed file
+	file?: FileMeta
+}
+
+function isMissing(err: any) {
+	return (err as NodeJS.ErrnoException)?.code == 'ENOENT'
+}
+
+function parentOf(path: string) {
+	return path.substring(0, path.lastIndexOf('/'))
+}
+
+/**
+ * Keeps removed pages and files of wiki in dated graveyard/ directory instead of deleting them
+ */
+export class Graveyard {
+	private static readonly idMatcher = /^\d{4}-\d{2}-\d{2}\/[^\/]+$/
+
+	public readonly directory = 'graveyard'
+
+	constructor(public readonly storage: StorageBackend) {
+
+	}
+
+	private async exists(path: string) {
+		return await this.storage.stat(path).then(() => true, err => {
+			if (!isMissing(err)) {
+				throw err
+			}
+
+			return false
+		})
+	}
+
+	/**
+	 * Moves paths (relative to root of wiki) into new graveyard entry, paths which do not exist are skipped
+	 *
+	 * @param name normalized name of page, used in entry id
+	 * @returns null if none of paths existed
+	 */
+	public async bury(kind: TombstoneKind, page: string, name: string, paths: string[], file?: FileMeta): Promise<Tombstone | null> {
+		const stamp = Date.now()
+		const date = new Date(stamp).toISOString().substring(0, 10)
+		const base = `${date}/${stamp}-${kind}-${name.replace(/[\/\\]/g, '_')}${file !== undefined ? `-${file.file_id}` : ''}`
+		let id = base
+
+		for (let i = 1; await this.exists(`${this.directory}/${id}`); i++) {
+			id = `${base}-${i}`
+		}
+
+		await this.storage.mkdir(`${this.directory}/${id}`)
+
+		const moved: string[] = []
+
+		for (const path of paths) {
+			try {
+				await this.storage.mkdir(parentOf(`${this.directory}/${id}/${path}`))
+				await this.storage.rename(path, `${this.directory}/${id}/${path}`)
+				moved.push(path)
+			} catch(err) {
+				if (!isMissing(err)) {
+					throw err
+				}
+			}
+		}
+
+		if (moved.length == 0) {
+			await this.storage.rm(`${this.directory}/${id}`, {recursive: true, force: true})
+			return null
+		}
+
+		const tombstone: Tombstone = {
+			id: id,
+			kind: kind,
+			page: page,
+			stamp: stamp,
+			paths: moved,
+			file: file
+		}
+
+		await this.storage.writeJson(`${this.directory}/${id}/tombstone.json`, tombstone, false)
+		return tombstone
+	}
+
+	public async read(id: string): Promise<Tombstone | null> {
+		if (!Graveyard.idMatcher.test(id) || id.includes('..')) {
+			throw new Error(`Invalid tombstone id ${id}`)
+		}
+
+		return await this.storage.readJson<Tombstone>(`${this.directory}/${id}/tombstone.json`)
+	}
+
+	/**
+	 * @returns every entry, oldest first
+	 */
+	public async list(): Promise<Tombstone[]> {
+		const result: Tombstone[] = []
+		let dates: string[]
+
+		try {
+			dates = await this.storage.readdir(this.directory)
+		} catch(err) {
+			if (isMissing(err)) {
+				return result
+			}
+
+			throw err
+		}
+
+		for (const date of dates.sort()) {
+			if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+				continue
+			}
+
+			for (const entry of await this.storage.readdir(`${this.directory}/${date}`)) {
+				const tombstone = await this.storage.readJson<Tombstone>(`${this.directory}/${date}/${entry}/tombstone.json`).catch(() => null)
+
+				if (tombstone !== null) {
+					result.push(tombstone)
+				}
+			}
+		}
+
+		return result.sort((a, b) => a.stamp - b.stamp)
+	}
+
+	/**
+	 * Moves everything in entry back to where it was and removes entry
+	 *
+	 * @throws Error if entry does not exist or something occupies original place of its content
+	 */
+	public async restore(id: string): Promise<Tombstone> {
+		const tombstone = await this.read(id)
+
+		if (tombstone === null) {
+			throw new Error(`No tombstone ${id}`)
+		}
+
+		for (const path of tombstone.paths) {
+			if (await this.exists(path)) {
+				throw new Error(`${path} already exists, move it away before restoring ${id}`)
+			}
+		}
+
+		for (const path of tombstone.paths) {
+			await this.storage.mkdir(parentOf(path))
+			await this.storage.rename(`${this.directory}/${id}/${path}`, path)
+		}
+
+		await this.storage.rm(`${this.directory}/${id}`, {recursive: true})
+		return tombstone
+	}
+}
@@ -0,0 +1,631 @@
+
+import { escape } from 'html-escaper'
+
+export interface MarkupContext {
+	// name of rendered page, files without page name belong to it
+	page: string
+	pageUrl(page: string): string
+	fileUrl(page: string, file: string): string
+	// source of page for [[include]], null if it is not stored
+	include?(page: string): Promise<string | null>
+	// shown by [[module Rate]]
+	rating?: number
+	// host of wiki, links to its local--files are pointed at stored copies
+	host?: string
+}
+
+const maxIncludeDepth = 5
+
+// tags which always start and end a block, they are moved onto their own lines before parsing
+const blockTags = ['div', 'div_', 'table', 'row', 'cell', 'hcell', 'collapsible', 'tabview', 'tabs', 'tab', 'module', 'toc', 'f<toc', 'f>toc', 'footnoteblock', '==', '=', '<', '>']
+const blockTagNames = blockTags.map(tag => tag.replace(/[<>=]/g, '\\$&')).join('|')
+const blockTagIsolator = new RegExp(`\\[\\[\\/?(?:${blockTagNames})(?:\\s[^\\]]*)?\\]\\]`, 'gi')
+const blockTagMatcher = new RegExp(`^\\[\\[(\\/?)(${blockTagNames})(?:\\s+([^\\]]*?))?\\s*\\]\\]$`, 'i')
+
+// modules which have body, e.g. [[module CSS]] ... [[/module]]
+const bodyModules = ['css', 'listpages', 'listusers', 'feedpages']
+
+const alignments: {[key: string]: string} = {'=': 'center', '==': 'justify', '<': 'left', '>': 'right'}
+
+/**
+ * Turns link target into page name the way Wikidot does, e.g. "Component: Foo Bar" into "component:foo-bar"
+ */
+export function normalizePageName(name: string) {
+	return name.trim().toLowerCase()
+		.replace(/[^a-z0-9:_]+/g, '-')
+		.replace(/-*:-*/g, ':')
+		.replace(/^-+|-+$/g, '')
+}
+
+function stripComments(source: string) {
+	return source.replace(/\[!--[\s\S]*?--\]/g, '')
+}
+
+function parseAttributes(text: string | undefined) {
+	const attributes = new Map<string, string>()
+
+	if (text === undefined) {
+		return attributes
+	}
+
+	for (const match of text.matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|(\S+))/g)) {
+		attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4])
+	}
+
+	return attributes
+}
+
+/**
+ * Allows only http(s) and mailto URLs, relative URLs and anchors. Browsers ignore whitespace and
+ * control characters inside scheme, so they are removed before scheme is checked
+ */
+function safeUrl(url: string) {
+	const scheme = url.replace(/[\x00-\x20\x7f]+/g, '').match(/^([^\/?#]*?):/)
+	return scheme === null || ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase()) ? url : '#'
+}
+
+function renderAttributes(attributes: Map<string, string>, allowed: string[]) {
+	let result = ''
+
+	for (const name of allowed) {
+		const value = attributes.get(name)
+
+		if (value !== undefined) {
+			result += ` ${name}="${escape(name == 'href' ? safeUrl(value) : value)}"`
+		}
+	}
+
+	return result
+}
+
+/**
+ * Replaces [[include]] with source of included page, with {$variable} values substituted
+ */
+async function expandIncludes(source: string, context: MarkupContext, stack: string[]): Promise<string> {
+	let result = ''
+	let last = 0
+
+	for (const match of source.matchAll(/\[\[include\s+([^\s\]|]+)([^\]]*)\]\]/gi)) {
+		result += source.substring(last, match.index)
+		last = match.index! + match[0].length
+
+		const name = normalizePageName(match[1])
+		let included: string | null = null
+
+		if (stack.length <= maxIncludeDepth && !stack.includes(name) && context.include !== undefined) {
+			included = await context.include(name)
+		}
+
+		if (included === null) {
+			result += `\n[[div class="error-block"]]\nPage @@${name}@@ could not be included\n[[/div]]\n`
+			continue
+		}
+
+		included = stripComments(included.replace(/\r\n?/g, '\n'))
+
+		for (const argument of match[2].split('|')) {
+			const separator = argument.indexOf('=')
+
+			if (separator != -1) {
+				included = included.split(`{$${argument.substring(0, separator).trim()}}`).join(argument.substring(separator + 1).trim())
+			}
+		}
+
+		result += `\n${await expandIncludes(included, context, [...stack, name])}\n`
+	}
+
+	return result + source.substring(last)
+}
+
+class Renderer {
+	// rendered HTML which must not be touched by further markup processing
+	private readonly placeholders: string[] = []
+	// placeholders which are blocks on their own, not to be wrapped into paragraphs
+	private readonly blockPlaceholders = new Set<string>()
+	private readonly footnotes: string[] = []
+	private readonly headings: {level: number, id: string, html: string}[] = []
+	private readonly tocPlaceholders: number[] = []
+	private footnoteBlock: number | null = null
+
+	private lines: string[] = []
+	private pos = 0
+
+	constructor(private readonly context: MarkupContext) {
+
+	}
+
+	private protect(html: string, block = false) {
+		const placeholder = `\uE000${this.placeholders.length}\uE001`
+		this.placeholders.push(html)
+
+		if (block) {
+			this.blockPlaceholders.add(placeholder)
+		}
+
+		return placeholder
+	}
+
+	private restore(html: string): string {
+		return html.replace(/\uE000(\d+)\uE001/g, (_, index) => this.restore(this.placeholders[parseInt(index)]))
+	}
+
+	/**
+	 * Takes out parts which are not markup, so nothing else is applied to them
+	 */
+	private extractLiterals(source: string) {
+		return source
+			.replace(/\[\[code(\s[^\]]*)?\]\]\n?([\s\S]*?)\n?\[\[\/code\]\]/gi, (_, attributes, code) => {
+				const type = parseAttributes(attributes).get('type')
+				return `\n${this.protect(`<pre class="code"${type !== undefined ? ` data-type="${escape(type)}"` : ''}><code>${escape(code)}</code></pre>`, true)}\n`
+			})
+			.replace(/\[\[html(\s[^\]]*)?\]\]\n?([\s\S]*?)\n?\[\[\/html\]\]/gi, (_, attributes, html) => {
+				// Wikidot shows raw HTML in separate frame as well
+				return `\n${this.protect(`<iframe class="html-block" sandbox srcdoc="${escape(html)}"></iframe>`, true)}\n`
+			})
+			.replace(/@@(.*?)@@/g, (_, text) => this.protect(escape(text)))
+			.replace(/@<(.*?)>@/g, (_, text) => this.protect(/^&#?[a-zA-Z0-9]+;$/.test(text) ? text : escape(text)))
+			.replace(/\[\[footnote\]\]([\s\S]*?)\[\[\/footnote\]\]/gi, (_, text) => {
+				this.footnotes.push(text)
+				const number = this.footnotes.length
+				return this.protect(`<sup class="footnoteref"><a id="footnoteref-${number}" href="#footnote-${number}" class="footnoteref">${number}</a></sup>`)
+			})
+	}
+
+	/**
+	 * Resolves links to local--files of the wiki to stored copies
+	 */
+	private localFile(url: string) {
+		const match = url.match(/^(?:https?:\/\/([^\/]+))?\/local--files\/([^\/]+)\/([^?#]+)/)
+
+		if (match === null) {
+			return null
+		}
+
+		const host = match[1]?.toLowerCase()
+		const ownHost = this.context.host?.toLowerCase()
+
+		if (host !== undefined && (ownHost === undefined || (host != ownHost && host != ownHost.replace(/\.wikidot\.com$/, '.wdfiles.com')))) {
+			return null
+		}
+
+		try {
+			return this.context.fileUrl(decodeURIComponent(match[2]), decodeURIComponent(match[3]))
+		} catch(err) {
+			return null
+		}
+	}
+
+	private linkUrl(target: string) {
+		if (/^[a-z][a-z0-9+.-]*:\/\//i.test(target)) {
+			return this.localFile(target) ?? target
+		}
+
+		if (target.startsWith('#')) {
+			return target
+		}
+
+		if (target.startsWith('/')) {
+			const local = this.localFile(target)
+
+			if (local !== null) {
+				return local
+			}
+
+			const [path, anchor] = target.substring(1).split('#', 2)
+			return this.context.pageUrl(normalizePageName(path.split('/')[0])) + (anchor !== undefined ? `#${anchor}` : '')
+		}
+
+		const [page, anchor] = target.split('#', 2)
+		return this.context.pageUrl(normalizePageName(page)) + (anchor !== undefined ? `#${anchor}` : '')
+	}
+
+	private imageUrl(source: string) {
+		if (/^https?:\/\//i.test(source) || source.startsWith('/local--files/')) {
+			return this.localFile(source) ?? source
+		}
+
+		const path = source.replace(/^\//, '')
+		const separator = path.lastIndexOf('/')
+
+		if (separator == -1) {
+			return this.context.fileUrl(this.context.page, path)
+		}
+
+		return this.context.fileUrl(normalizePageName(path.substring(0, separator)), path.substring(separator + 1))
+	}
+
+	private image(alignment: string, source: string, attributeText: string) {
+		const attributes = parseAttributes(attributeText)
+		let html = `<img src="${escape(safeUrl(this.imageUrl(source)))}" alt="${escape(attributes.get('alt') ?? source.substring(source.lastIndexOf('/') + 1))}"${renderAttributes(attributes, ['width', 'height', 'style', 'class', 'title'])}>`
+		const link = attributes.get('link')
+
+		if (link !== undefined) {
+			html = `<a href="${escape(safeUrl(this.linkUrl(link.replace(/^\*/, ''))))}">${html}</a>`
+		}
+
+		const align = alignment.replace('f', '')
+
+		if (align == '') {
+			return html
+		}
+
+		const position = align == '=' ? 'center' : alignment.startsWith('f') ? `float${alignments[align]}` : `align${alignments[align]}`
+		return `<div class="image-container ${position}">${html}</div>`
+	}
+
+	private inline(text: string) {
+		const link = (href: string, label: string, newWindow: boolean) => {
+			return this.protect(`<a href="${escape(safeUrl(href))}"${newWindow ? ' target="_blank"' : ''}>`) + label + this.protect('</a>')
+		}
+
+		text = text
+			.replace(/\[\[\[([^\]|]*?)(?:\s*\|\s*([^\]]*?))?\s*\]\]\]/g, (_, target: string, label?: string) => {
+				const newWindow = target.startsWith('*')
+				target = target.replace(/^\*/, '').trim()
+				return link(this.linkUrl(target), label !== undefined && label != '' ? label : target, newWindow)
+			})
+			.replace(/\[\[#\s+([^\]]+?)\s*\]\]/g, (_, name) => this.protect(`<a id="${escape(name)}"></a>`))
+			.replace(/\[\[(f?[<>=]?)image\s+([^\s\]]+)([^\]]*)\]\]/gi, (_, alignment, source, attributes) => this.protect(this.image(alignment, source, attributes)))
+			.replace(/\[(\*?)((?:[a-z][a-z0-9+.-]*:\/\/|\/|#)[^\s\]]*)\s+([^\]]+)\]/gi, (_, star, target, label) => link(this.linkUrl(target), label, star != ''))
+			.replace(/(^|[\s(])(https?:\/\/[^\s<>"\[\]|\uE000\uE001]*[^\s<>"\[\]|\uE000\uE001.,;:!?)])/g, (_, before, url) => before + this.protect(`<a href="${escape(this.linkUrl(url))}">${escape(url)}</a>`))
+			.replace(/\[\[\*?user\s+([^\]]+?)\s*\]\]/gi, (_, name) => this.protect(`<span class="printuser">${escape(name)}</span>`))
+			.replace(/\[\[span(\s[^\]]*)?\]\]/gi, (_, attributes) => this.protect(`<span${renderAttributes(parseAttributes(attributes), ['class', 'style', 'id'])}>`))
+			.replace(/\[\[size\s+([^\]]+?)\s*\]\]/gi, (_, size) => this.protect(`<span style="font-size: ${escape(size)};">`))
+			.replace(/\[\[a(\s[^\]]*)?\]\]/gi, (_, attributes) => this.protect(`<a${renderAttributes(parseAttributes(attributes), ['href', 'class', 'style', 'id', 'target'])}>`))
+			.replace(/\[\[\/(span|size)\]\]/gi, () => this.protect('</span>'))
+			.replace(/\[\[\/a\]\]/gi, () => this.protect('</a>'))
+			.replace(/##(#?[0-9a-zA-Z]+)\|(.+?)##/g, (_, color, label) => this.protect(`<span style="color: ${color};">`) + label + this.protect('</span>'))
+
+		return escape(text)
+			.replace(/\*\*(?=\S)(.*?\S)\*\*/g, '<strong>$1</strong>')
+			.replace(/\/\/(?=\S)(.*?\S)\/\//g, '<em>$1</em>')
+			.replace(/__(?=\S)(.*?\S)__/g, '<span style="text-decoration: underline;">$1</span>')
+			.replace(/(^|[^-])--(?=[^\s-])(.*?[^\s-])--(?!-)/g, '$1<span style="text-decoration: line-through;">$2</span>')
+			.replace(/\{\{(.+?)\}\}/g, '<tt>$1</tt>')
+			.replace(/\^\^(?=\S)(.*?\S)\^\^/g, '<sup>$1</sup>')
+			.replace(/,,(?=\S)(.*?\S),,/g, '<sub>$1</sub>')
+	}
+
+	private paragraph(lines: string[]) {
+		if (lines.length == 1 && this.blockPlaceholders.has(lines[0].trim())) {
+			return lines[0].trim()
+		}
+
+		return `<p>${lines.map(line => this.inline(line.replace(/\s+_$/, ''))).join('<br>\n')}</p>`
+	}
+
+	private list() {
+		let html = ''
+		const stack: {indent: number, type: string}[] = []
+
+		while (this.pos < this.lines.length) {
+			const match = this.lines[this.pos].match(/^( *)([*#]) (.*)$/)
+
+			if (match === null) {
+				break
+			}
+
+			const indent = match[1].length
+			const type = match[2] == '*' ? 'ul' : 'ol'
+
+			if (stack.length == 0 || indent > stack[stack.length - 1].indent) {
+				html += `<${type}>`
+				stack.push({indent: indent, type: type})
+			} else {
+				while (stack.length > 1 && indent < stack[stack.length - 1].indent) {
+					html += `</li></${stack.pop()!.type}>`
+				}
+
+				html += '</li>'
+				const top = stack[stack.length - 1]
+
+				if (top.type != type) {
+					html += `</${top.type}><${type}>`
+					top.type = type
+				}
+			}
+
+			html += `<li>${this.inline(match[3])}`
+			this.pos++
+		}
+
+		while (stack.length != 0) {
+			html += `</li></${stack.pop()!.type}>`
+		}
+
+		return html
+	}
+
+	private table() {
+		const rows: string[] = []
+
+		while (this.pos < this.lines.length && this.lines[this.pos].startsWith('||')) {
+			const line = this.lines[this.pos++].trim()
+			const cells = line.substring(2, line.endsWith('||') && line.length > 2 ? line.length - 2 : line.length).split('||')
+			let colspan = 1
+			let row = ''
+
+			for (let cell of cells) {
+				if (cell == '') {
+					colspan++
+					continue
+				}
+
+				let tag = 'td'
+				let style = ''
+
+				if (cell.startsWith('~')) {
+					tag = 'th'
+					cell = cell.substring(1)
+				}
+
+				if (['<', '=', '>'].includes(cell[0])) {
+					style = ` style="text-align: ${alignments[cell[0]]};"`
+					cell = cell.substring(1)
+				}
+
+				row += `<${tag}${colspan > 1 ? ` colspan="${colspan}"` : ''}${style}>${this.inline(cell.trim())}</${tag}>`
+				colspan = 1
+			}
+
+			rows.push(`<tr>${row}</tr>`)
+		}
+
+		return `<table class="wiki-content-table">\n${rows.join('\n')}\n</table>`
+	}
+
+	/**
+	 * Parses lines of quote or nested block with the same state
+	 */
+	private nested(lines: string[]) {
+		const [savedLines, savedPos] = [this.lines, this.pos]
+		this.lines = lines
+		this.pos = 0
+
+		try {
+			return this.blocks(null)
+		} finally {
+			this.lines = savedLines
+			this.pos = savedPos
+		}
+	}
+
+	private module(name: string, attributes: string | undefined) {
+		let body: string[] = []
+
+		if (bodyModules.includes(name.toLowerCase())) {
+			const end = this.lines.findIndex((line, index) => index >= this.pos && /^\[\[\/module\]\]$/i.test(line.trim()))
+
+			if (end != -1) {
+				body = this.lines.slice(this.pos, end)
+				this.pos = end + 1
+			}
+		}
+
+		switch (name.toLowerCase()) {
+			case 'rate': {
+				const rating = this.context.rating
+				return `<div class="page-rate-widget-box"><span class="rate-points">rating: <span class="number">${rating === undefined ? '?' : rating > 0 ? `+${rating}` : rating}</span></span></div>`
+			}
+
+			case 'css':
+				return `<style>${this.restore(body.join('\n')).replace(/<\//g, '<\\/')}</style>`
+
+			default:
+				return `<div class="module-stub">Module ${escape(name)}${attributes !== undefined ? ` (${escape(attributes)})` : ''} is not available in archive</div>`
+		}
+	}
+
+	private blockTag(name: string, attributeText: string | undefined) {
+		const attributes = parseAttributes(attributeText)
+
+		switch (name) {
+			case 'div':
+			case 'div_':
+				return `<div${renderAttributes(attributes, ['class', 'style', 'id'])}>\n${this.blocks(name)}\n</div>`
+
+			case 'table':
+				return `<table${renderAttributes(attributes, ['class', 'style', 'id'])}>\n${this.blocks(name)}\n</table>`
+
+			case 'row':
+				return `<tr${renderAttributes(attributes, ['class', 'style', 'id'])}>\n${this.blocks(name)}\n</tr>`
+
+			case 'cell':
+			case 'hcell': {
+				const tag = name == 'cell' ? 'td' : 'th'
+				return `<${tag}${renderAttributes(attributes, ['class', 'style', 'id', 'colspan', 'rowspan'])}>\n${this.blocks(name)}\n</${tag}>`
+			}
+
+			case 'collapsible':
+				return `<details class="collapsible-block"${attributes.get('folded') == 'no' ? ' open' : ''}><summary>${escape(attributes.get('show') ?? '+ show block')}</summary>\n${this.blocks(name)}\n</details>`
+
+			case 'tabview':
+			case 'tabs':
+				return `<div class="yui-navset">\n${this.blocks(name)}\n</div>`
+
+			case 'tab':
+				return `<div class="tab"><div class="tab-title">${escape(attributeText ?? '')}</div>\n${this.blocks(name)}\n</div>`
+
+			case 'module': {
+				const [moduleName, ...rest] = (attributeText ?? '').split(/\s+/)
+				return this.module(moduleName, rest.length != 0 ? rest.join(' ') : undefined)
+			}
+
+			case 'toc':
+			case 'f<toc':
+			case 'f>toc':
+				// filled once every heading is known
+				this.tocPlaceholders.push(this.placeholders.length)
+				return this.protect('', true)
+
+			case 'footnoteblock':
+				this.footnoteBlock = this.placeholders.length
+				return this.protect('', true)
+
+			default:
+				return `<div style="text-align: ${alignments[name]};">\n${this.blocks(name)}\n</div>`
+		}
+	}
+
+	/**
+	 * Parses lines until closing tag
+	 *
+	 * @param closing name of tag which ends this block, null for top level
+	 */
+	private blocks(closing: string | null): string {
+		const html: string[] = []
+		let paragraph: string[] = []
+
+		const flush = () => {
+			if (paragraph.length != 0) {
+				html.push(this.paragraph(paragraph))
+				paragraph = []
+			}
+		}
+
+		while (this.pos < this.lines.length) {
+			const line = this.lines[this.pos]
+			const trimmed = line.trim()
+			const tag = trimmed.match(blockTagMatcher)
+
+			if (tag !== null) {
+				flush()
+				this.pos++
+
+				const name = tag[2].toLowerCase()
+
+				if (tag[1] == '/') {
+					if (name == closing) {
+						break
+					}
+
+					// stray closing tag
+					continue
+				}
+
+				html.push(this.blockTag(name, tag[3]))
+				continue
+			}
+
+			if (trimmed == '') {
+				flush()
+				this.pos++
+				continue
+			}
+
+			const heading = line.match(/^(\+{1,6})(\*?)\s+(.+)$/)
+
+			if (heading !== null) {
+				flush()
+				this.pos++
+
+				const level = heading[1].length
+				const content = this.inline(heading[3])
+
+				if (heading[2] == '') {
+					const id = `toc${this.headings.length}`
+					this.headings.push({level: level, id: id, html: content})
+					html.push(`<h${level} id="${id}"><span>${content}</span></h${level}>`)
+				} else {
+					html.push(`<h${level}><span>${content}</span></h${level}>`)
+				}
+
+				continue
+			}
+
+			const image = trimmed.match(/^\[\[(f?[<>=])image\s+([^\s\]]+)([^\]]*)\]\]$/i)
+
+			if (image !== null) {
+				flush()
+				this.pos++
+				html.push(this.image(image[1], image[2], image[3]))
+				continue
+			}
+
+			if (/^-{4,}$/.test(trimmed)) {
+				flush()
+				this.pos++
+				html.push('<hr>')
+				continue
+			}
+
+			if (/^ *[*#] /.test(line)) {
+				flush()
+				html.push(this.list())
+				continue
+			}
+
+			if (line.startsWith('||')) {
+				flush()
+				html.push(this.table())
+				continue
+			}
+
+			if (line.startsWith('>')) {
+				flush()
+				const quoted: string[] = []
+
+				while (this.pos < this.lines.length && this.lines[this.pos].startsWith('>')) {
+					quoted.push(this.lines[this.pos++].replace(/^> ?/, ''))
+				}
+
+				html.push(`<blockquote>\n${this.nested(quoted)}\n</blockquote>`)
+				continue
+			}
+
+			if (line.startsWith('= ')) {
+				flush()
+				this.pos++
+				html.push(`<div style="text-align: center;">${this.inline(line.substring(2))}</div>`)
+				continue
+			}
+
+			paragraph.push(line)
+			this.pos++
+		}
+
+		flush()
+		return html.join('\n')
+	}
+
+	private renderFootnotes() {
+		const items = this.footnotes.map((text, index) => `<div class="footnote-footer" id="footnote-${index + 1}"><a href="#footnoteref-${index + 1}">${index + 1}</a>. ${this.inline(text)}</div>`)
+		return `<div class="footnotes-footer">\n<div class="title">Footnotes</div>\n${items.join('\n')}\n</div>`
+	}
+
+	private renderToc() {
+		const items = this.headings.map(heading => `<div style="margin-left: ${heading.level}em;"><a href="#${heading.id}">${heading.html}</a></div>`)
+		return `<div id="toc">\n<div class="title">Table of Contents</div>\n${items.join('\n')}\n</div>`
+	}
+
+	public render(source: string) {
+		source = this.extractLiterals(source).replace(blockTagIsolator, '\n$&\n')
+		this.lines = source.split('\n')
+		this.pos = 0
+
+		let html = this.blocks(null)
+
+		for (const index of this.tocPlaceholders) {
+			this.placeholders[index] = this.renderToc()
+		}
+
+		if (this.footnotes.length != 0) {
+			if (this.footnoteBlock !== null) {
+				this.placeholders[this.footnoteBlock] = this.renderFootnotes()
+			} else {
+				html += '\n' + this.renderFootnotes()
+			}
+		}
+
+		return this.restore(html)
+	}
+}
+
+/**
+ * Renders Wikidot markup into HTML. Covers commonly used subset of syntax, modules are replaced with stubs
+ */
+export async function renderMarkup(source: string, context: MarkupContext): Promise<string> {
+	source = stripComments(source.replace(/\r\n?/g, '\n'))
+	source = await expandIncludes(source, context, [normalizePageName(context.page)])
+	return new Renderer(context).render(source)
+}
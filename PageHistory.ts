@@ -0,0 +1,155 @@
+
+import { PageMeta } from './WikiDot'
+
+type Vote = NonNullable<PageMeta['votings']>[number]
+
+export interface HistoryFile {
+	file_id: number
+	name: string
+}
+
+/**
+ * Parts of page metadata which are not versioned by WikiDot
+ */
+export interface PageSnapshot {
+	rating?: number
+	votings?: Vote[]
+	tags?: string[]
+	title?: string
+	parent?: string
+	is_locked?: boolean
+	files?: HistoryFile[]
+}
+
+type TrackedField = 'rating' | 'tags' | 'title' | 'parent' | 'is_locked' | 'files'
+
+const trackedFields: TrackedField[] = ['rating', 'tags', 'title', 'parent', 'is_locked', 'files']
+
+function setField<T, K extends keyof T>(target: T, field: K, value: T[K]) {
+	target[field] = value
+}
+
+/**
+ * Line of page history log
+ */
+export interface PageHistoryEntry {
+	// when change was noticed
+	stamp: number
+	// new values of changed fields, null if field got removed
+	changes: {[K in TrackedField]?: PageSnapshot[K] | null}
+	// votes which were cast or withdrawn, changed vote is withdrawn and cast again
+	votes?: {added: Vote[], removed: Vote[]}
+}
+
+function snapshotOf(meta: PageMeta | null): PageSnapshot {
+	if (meta === null) {
+		return {}
+	}
+
+	return {
+		rating: meta.rating,
+		votings: meta.votings,
+		tags: meta.tags,
+		title: meta.title,
+		parent: meta.parent,
+		is_locked: meta.is_locked,
+		files: meta.files?.map(file => {return {file_id: file.file_id, name: file.name}})
+	}
+}
+
+function voteKey(vote: Vote) {
+	return `${vote[0]}:${vote[1]}`
+}
+
+/**
+ * Votes present in a but not in b, every vote counted separately
+ */
+function subtractVotes(a: Vote[], b: Vote[]) {
+	const counts = new Map<string, number>()
+
+	for (const vote of b) {
+		counts.set(voteKey(vote), (counts.get(voteKey(vote)) ?? 0) + 1)
+	}
+
+	const result: Vote[] = []
+
+	for (const vote of a) {
+		const count = counts.get(voteKey(vote)) ?? 0
+
+		if (count == 0) {
+			result.push(vote)
+		} else {
+			counts.set(voteKey(vote), count - 1)
+		}
+	}
+
+	return result
+}
+
+/**
+ * Compares untracked parts of previous and new metadata of page
+ *
+ * @param previous null if page is seen for the first time
+ * @returns null if nothing changed
+ */
+export function diffPageMeta(previous: PageMeta | null, next: PageMeta, stamp = Date.now()): PageHistoryEntry | null {
+	const before = snapshotOf(previous)
+	const after = snapshotOf(next)
+	const entry: PageHistoryEntry = {stamp: stamp, changes: {}}
+	let changed = false
+
+	for (const field of trackedFields) {
+		if (JSON.stringify(before[field]) != JSON.stringify(after[field])) {
+			setField(entry.changes, field, after[field] ?? null)
+			changed = true
+		}
+	}
+
+	// votes are not fetched if page got renewed after failing to fetch them
+	if (after.votings !== undefined) {
+		const added = subtractVotes(after.votings, before.votings ?? [])
+		const removed = subtractVotes(before.votings ?? [], after.votings)
+
+		if (added.length != 0 || removed.length != 0) {
+			entry.votes = {added: added, removed: removed}
+			changed = true
+		}
+	}
+
+	return changed ? entry : null
+}
+
+/**
+ * Reconstructs state of page as it was at specified moment
+ *
+ * @param entries history log, oldest entry first
+ * @returns null if page was not seen yet at that moment
+ */
+export function replayHistory(entries: PageHistoryEntry[], at: number): PageSnapshot | null {
+	const state: PageSnapshot = {}
+	let seen = false
+
+	for (const entry of entries) {
+		if (entry.stamp > at) {
+			break
+		}
+
+		seen = true
+
+		for (const field of trackedFields) {
+			const value = entry.changes[field]
+
+			if (value === null) {
+				delete state[field]
+			} else if (value !== undefined) {
+				setField(state, field, value)
+			}
+		}
+
+		if (entry.votes !== undefined) {
+			state.votings = [...subtractVotes(state.votings ?? [], entry.votes.removed), ...entry.votes.added]
+		}
+	}
+
+	return seen ? state : null
+}
@@ -0,0 +1,70 @@
+
+/**
+ * What to back up of a page
+ *
+ * full - metadata and every revision
+ * latest - metadata and only the newest revision
+ * metadata - metadata (including revision list) without revision contents
+ * skip - nothing, page is excluded from sitemap
+ */
+export type PagePolicy = 'full' | 'latest' | 'metadata' | 'skip'
+
+export const pagePolicies: PagePolicy[] = ['full', 'latest', 'metadata', 'skip']
+
+/**
+ * Rule is either a pattern, or a pattern with policy
+ *
+ * Pattern is either a glob matched against whole page name (`*` matches any amount of symbols, `?` matches
+ * exactly one symbol), or a regular expression written as /expression/flags
+ */
+export type PageRule = string | {pattern: string, policy?: PagePolicy}
+
+export type PageRulesMode = 'blacklist' | 'whitelist'
+
+/**
+ * Turns pattern of rule into regular expression
+ *
+ * @throws Error if pattern is an invalid regular expression
+ */
+export function compilePattern(pattern: string): RegExp {
+	const regexp = pattern.match(/^\/(.*)\/([a-z]*)$/)
+
+	if (regexp !== null) {
+		// stateful flags would make test() skip matches
+		return new RegExp(regexp[1], regexp[2].replace(/[gy]/g, ''))
+	}
+
+	const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+	return new RegExp(`^${escaped}$`, 'i')
+}
+
+export class PageRules {
+	private readonly compiled: [RegExp, PagePolicy][] = []
+
+	/**
+	 * @param rules first matching rule wins
+	 * @param mode in blacklist mode rules without policy skip matching pages and other pages are backed up in full,
+	 * in whitelist mode rules without policy back up matching pages in full and other pages are skipped
+	 */
+	constructor(rules: PageRule[] = [], public readonly mode: PageRulesMode = 'blacklist') {
+		const fallback = mode == 'whitelist' ? 'full' : 'skip'
+
+		for (const rule of rules) {
+			if (typeof rule == 'string') {
+				this.compiled.push([compilePattern(rule), fallback])
+			} else {
+				this.compiled.push([compilePattern(rule.pattern), rule.policy ?? fallback])
+			}
+		}
+	}
+
+	public policyOf(page: string): PagePolicy {
+		for (const [pattern, policy] of this.compiled) {
+			if (pattern.test(page)) {
+				return policy
+			}
+		}
+
+		return this.mode == 'whitelist' ? 'skip' : 'full'
+	}
+}
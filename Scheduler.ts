@@ -0,0 +1,202 @@
+
+import { promises } from 'fs'
+import { CronExpression } from './Cron'
+import { DaemonConfig, WikiEntry } from './DaemonConfig'
+import { JobState } from './ControlServer'
+import { readJson, writeFileAtomic } from './storage'
+
+export interface ScheduleConfig {
+	// seconds between runs
+	interval?: number
+	// cron expression, used instead of interval
+	cron?: string
+	// maximum random delay, in seconds, added to every run
+	jitter?: number
+	// overrides "incremental" option for scheduled runs
+	incremental?: boolean
+}
+
+export interface ScheduleRecord {
+	// when last successful run was started
+	last_success?: number
+	// when last run, successful or not, was started
+	last_attempt?: number
+	last_state?: JobState
+}
+
+/**
+ * Runs backup job of wiki and resolves with its final state once it is done,
+ * or with null if job was not started
+ */
+export type ScheduledRunner = (name: string, incremental?: boolean) => Promise<JobState | null>
+
+// setTimeout fires immediately if delay does not fit into 32 bit integer
+const MAXIMUM_DELAY = 0x7FFFFFFF
+
+/**
+ * Starts backups of wikis which have "schedule" option, at fixed intervals or according to cron expression
+ *
+ * Time of last run of every wiki is persisted, so restarting daemon does not reset intervals
+ * and runs missed while daemon was not running are started right away.
+ */
+export class Scheduler {
+	private readonly timers = new Map<string, NodeJS.Timeout>()
+	private readonly nextRuns = new Map<string, number>()
+	private records: {[key: string]: ScheduleRecord} = {}
+	private saving: Promise<void> = Promise.resolve()
+	private running = false
+
+	constructor(public readonly config: DaemonConfig, private readonly runner: ScheduledRunner) {
+
+	}
+
+	public get recordPath() {
+		return `${this.config.base_directory}/_schedule.json`
+	}
+
+	private log(str: string) {
+		process.stdout.write(`[Scheduler]: ${str}\n`)
+	}
+
+	private error(str: string) {
+		process.stderr.write(`[Scheduler]: ${str}\n`)
+	}
+
+	public record(name: string): ScheduleRecord | undefined {
+		return this.records[name]
+	}
+
+	public nextRun(name: string) {
+		return this.nextRuns.get(name)
+	}
+
+	private async loadRecords() {
+		try {
+			this.records = await readJson(this.recordPath, err => {
+				this.error(`${err.message}, using previous version if it is intact`)
+			}) ?? {}
+		} catch(err) {
+			this.error(`Unable to read ${this.recordPath}, starting with empty schedule: ${err}`)
+			this.records = {}
+		}
+	}
+
+	private saveRecords() {
+		const body = JSON.stringify(this.records, null, 4)
+
+		this.saving = this.saving.then(async () => {
+			await promises.mkdir(this.config.base_directory, {recursive: true})
+			await writeFileAtomic(this.recordPath, body)
+		}).catch(err => {
+			this.error(`Unable to write ${this.recordPath}: ${err}`)
+		})
+
+		return this.saving
+	}
+
+	/**
+	 * Returns when next run of wiki should start, including jitter
+	 */
+	private nextTime(schedule: ScheduleConfig, record: ScheduleRecord | undefined) {
+		const now = Date.now()
+		const last = record?.last_attempt
+		let next: number
+
+		if (schedule.cron !== undefined) {
+			// if run was missed while daemon was not running, it starts right away
+			next = new CronExpression(schedule.cron).next(new Date(last ?? now)).getTime()
+		} else {
+			next = last !== undefined ? last + schedule.interval! * 1000 : now
+		}
+
+		return Math.max(next, now) + Math.floor(Math.random() * (schedule.jitter ?? 0) * 1000)
+	}
+
+	private plan(entry: WikiEntry, schedule: ScheduleConfig) {
+		if (!this.running) {
+			return
+		}
+
+		const next = this.nextTime(schedule, this.records[entry.name])
+		this.nextRuns.set(entry.name, next)
+		this.log(`Next backup of ${entry.name} at ${new Date(next).toISOString()}`)
+		this.arm(entry, schedule, next)
+	}
+
+	private arm(entry: WikiEntry, schedule: ScheduleConfig, next: number) {
+		const delay = next - Date.now()
+
+		if (delay > MAXIMUM_DELAY) {
+			this.timers.set(entry.name, setTimeout(() => this.arm(entry, schedule, next), MAXIMUM_DELAY))
+			return
+		}
+
+		this.timers.set(entry.name, setTimeout(() => this.fire(entry, schedule), Math.max(delay, 0)))
+	}
+
+	private async fire(entry: WikiEntry, schedule: ScheduleConfig) {
+		this.timers.delete(entry.name)
+		this.nextRuns.delete(entry.name)
+
+		const started = Date.now()
+		let state: JobState | null = null
+
+		try {
+			state = await this.runner(entry.name, schedule.incremental)
+		} catch(err) {
+			this.error(`Scheduled backup of ${entry.name} failed to start: ${err}`)
+			state = 'failed'
+		}
+
+		// jobs aborted by shutdown do not count
+		if (state !== null && this.running) {
+			const record = this.records[entry.name] ?? {}
+			record.last_attempt = started
+			record.last_state = state
+
+			if (state == 'finished') {
+				record.last_success = started
+			}
+
+			this.records[entry.name] = record
+			await this.saveRecords()
+		}
+
+		this.plan(entry, schedule)
+	}
+
+	/**
+	 * Loads records of previous runs and plans runs of every enabled wiki with schedule
+	 */
+	public async start() {
+		if (this.running) {
+			return
+		}
+
+		await this.loadRecords()
+		this.running = true
+
+		for (const entry of this.config.selectWikis()) {
+			const schedule = this.config.wikiOptions(entry).schedule
+
+			if (schedule !== undefined) {
+				this.plan(entry, schedule)
+			}
+		}
+	}
+
+	/**
+	 * Cancels planned runs, runs which are already started are not affected
+	 */
+	public async stop() {
+		this.running = false
+
+		for (const timer of this.timers.values()) {
+			clearTimeout(timer)
+		}
+
+		this.timers.clear()
+		this.nextRuns.clear()
+		await this.saving
+	}
+}
@@ -0,0 +1,565 @@
+
+import { parse } from 'node-html-parser'
+import { findMostRevision, LocalForumPost, WikiDot } from './WikiDot'
+import { StorageBackend } from './StorageBackend'
+
+export type SearchKind = 'page' | 'post'
+
+interface IndexedDocument {
+	kind: SearchKind
+	// page name, or category/thread/post
+	key: string
+	title: string
+	tags?: string[]
+	// indexed revision of page
+	revision?: number
+}
+
+interface DocumentTable {
+	next_id: number
+	documents: {[id: string]: IndexedDocument}
+}
+
+// term -> flat list of document id and amount of occurrences pairs
+type TermShard = {[term: string]: number[]}
+// document id -> indexed text
+type TextShard = {[id: string]: string}
+
+export interface SearchResult {
+	kind: SearchKind
+	page?: string
+	revision?: number
+	category?: number
+	thread?: number
+	post?: number
+	title: string
+	score: number
+	snippet: string
+}
+
+const shardCount = 256
+// pending changes are written once there are this many of them
+const maxPendingPostings = 1000000
+const maxPendingText = 64 * 1024 * 1024
+const snippetRadius = 80
+
+export function tokenize(text: string): string[] {
+	return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []
+}
+
+function shardOf(value: string) {
+	// FNV-1a
+	let hash = 0x811c9dc5
+
+	for (let i = 0; i < value.length; i++) {
+		hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193)
+	}
+
+	return (hash >>> 0) % shardCount
+}
+
+function countTerms(text: string) {
+	const counts = new Map<string, number>()
+
+	for (const term of tokenize(text)) {
+		counts.set(term, (counts.get(term) ?? 0) + 1)
+	}
+
+	return counts
+}
+
+/**
+ * Text of page source, with markup tags removed
+ */
+function markupText(source: string) {
+	return source
+		.replace(/\[!--[\s\S]*?--\]/g, '')
+		.replace(/\[\[\[([^\]|]*)(?:\|([^\]]*))?\]\]\]/g, (_, page, label) => label ?? page)
+		.replace(/\[\[[^\]]*\]\]/g, ' ')
+		.replace(/^[+*#>]+\s/gm, '')
+		.replace(/\*\*|__|\{\{|\}\}|@@|\|\|/g, '')
+}
+
+function htmlText(html: string) {
+	return parse(html).text
+}
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function snippet(text: string, terms: string[]) {
+	let position = -1
+
+	for (const term of terms) {
+		const match = new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}`, 'iu').exec(text)
+
+		if (match !== null) {
+			position = match.index
+			break
+		}
+	}
+
+	const start = Math.max(0, position - snippetRadius)
+	const end = Math.min(text.length, Math.max(position, 0) + snippetRadius)
+
+	return (start > 0 ? '…' : '') + text.substring(start, end).replace(/\s+/g, ' ').trim() + (end < text.length ? '…' : '')
+}
+
+/**
+ * Whenever tokens contain phrase as consecutive tokens
+ */
+function containsPhrase(tokens: string[], phrase: string[]) {
+	for (let i = 0; i + phrase.length <= tokens.length; i++) {
+		if (phrase.every((term, j) => tokens[i + j] == term)) {
+			return true
+		}
+	}
+
+	return false
+}
+
+/**
+ * Inverted index of latest revisions of pages and latest versions of forum posts of wiki,
+ * stored in search/ directory of wiki
+ *
+ * Term lists and texts are split into shards, only shards touched by search or update are read.
+ */
+export class SearchIndex {
+	private table: DocumentTable | null = null
+	// kind:key -> document id
+	private readonly ids = new Map<string, number>()
+
+	// changes of term lists which are not written yet, count of 0 removes document from term list
+	private readonly postings = new Map<string, Map<number, number>>()
+	private pendingPostings = 0
+	private readonly textShards = new Map<number, TextShard>()
+	private readonly dirtyTextShards = new Set<number>()
+	private pendingText = 0
+
+	private readonly queuedPages = new Set<string>()
+	private readonly queuedThreads = new Map<string, [number, number]>()
+
+	/**
+	 * @param directory where index is kept, relative to root of wiki
+	 */
+	constructor(private readonly storage: StorageBackend, public readonly directory = 'search') {
+
+	}
+
+	private termShardPath(shard: number) {
+		return `${this.directory}/terms/${shard.toString(16).padStart(2, '0')}.json`
+	}
+
+	private textShardPath(shard: number) {
+		return `${this.directory}/text/${shard.toString(16).padStart(2, '0')}.json`
+	}
+
+	private async load() {
+		if (this.table === null) {
+			this.table = await this.storage.readJson<DocumentTable>(`${this.directory}/documents.json`) ?? {next_id: 0, documents: {}}
+			this.ids.clear()
+
+			for (const id in this.table.documents) {
+				const document = this.table.documents[id]
+				this.ids.set(`${document.kind}:${document.key}`, parseInt(id))
+			}
+		}
+
+		return this.table
+	}
+
+	private async textShard(shard: number) {
+		let value = this.textShards.get(shard)
+
+		if (value === undefined) {
+			value = await this.storage.readJson<TextShard>(this.textShardPath(shard)) ?? {}
+			this.textShards.set(shard, value)
+		}
+
+		return value
+	}
+
+	private async readText(id: number) {
+		return (await this.textShard(id % shardCount))[id] ?? ''
+	}
+
+	/**
+	 * Adds or replaces document, or removes it if text is null
+	 */
+	private async put(document: IndexedDocument, text: string | null) {
+		const table = await this.load()
+		const key = `${document.kind}:${document.key}`
+		let id = this.ids.get(key)
+
+		if (id === undefined && text === null) {
+			return
+		}
+
+		const before = new Map<string, number>()
+
+		if (id !== undefined) {
+			const previous = table.documents[id]
+
+			for (const [term, count] of countTerms(`${previous.title}\n${(previous.tags ?? []).join(' ')}\n${await this.readText(id)}`)) {
+				before.set(term, count)
+			}
+		} else {
+			id = table.next_id++
+			this.ids.set(key, id)
+		}
+
+		const after = text !== null ? countTerms(`${document.title}\n${(document.tags ?? []).join(' ')}\n${text}`) : new Map<string, number>()
+
+		for (const term of new Set([...before.keys(), ...after.keys()])) {
+			const count = after.get(term) ?? 0
+
+			if (before.get(term) === count) {
+				continue
+			}
+
+			let changes = this.postings.get(term)
+
+			if (changes === undefined) {
+				changes = new Map()
+				this.postings.set(term, changes)
+			}
+
+			changes.set(id, count)
+			this.pendingPostings++
+		}
+
+		const shard = await this.textShard(id % shardCount)
+
+		if (text !== null) {
+			table.documents[id] = document
+			shard[id] = text
+			this.pendingText += text.length
+		} else {
+			delete table.documents[id]
+			delete shard[id]
+			this.ids.delete(key)
+		}
+
+		this.dirtyTextShards.add(id % shardCount)
+
+		if (this.pendingPostings >= maxPendingPostings || this.pendingText >= maxPendingText) {
+			await this.write()
+		}
+	}
+
+	/**
+	 * Writes pending changes to disk
+	 */
+	public async write() {
+		if (this.table === null) {
+			return
+		}
+
+		await this.storage.mkdir(`${this.directory}/terms`)
+		await this.storage.mkdir(`${this.directory}/text`)
+
+		const shards = new Map<number, string[]>()
+
+		for (const term of this.postings.keys()) {
+			const shard = shardOf(term)
+			const terms = shards.get(shard)
+
+			if (terms === undefined) {
+				shards.set(shard, [term])
+			} else {
+				terms.push(term)
+			}
+		}
+
+		for (const [shard, terms] of shards) {
+			const value = await this.storage.readJson<TermShard>(this.termShardPath(shard)) ?? {}
+
+			for (const term of terms) {
+				const list = new Map<number, number>()
+				const stored = value[term] ?? []
+
+				for (let i = 0; i < stored.length; i += 2) {
+					list.set(stored[i], stored[i + 1])
+				}
+
+				for (const [id, count] of this.postings.get(term)!) {
+					if (count == 0) {
+						list.delete(id)
+					} else {
+						list.set(id, count)
+					}
+				}
+
+				if (list.size == 0) {
+					delete value[term]
+				} else {
+					value[term] = [...list].flat()
+				}
+			}
+
+			// index can be rebuilt, so it is not backed up
+			await this.storage.writeJson(this.termShardPath(shard), value, false)
+		}
+
+		for (const shard of this.dirtyTextShards) {
+			await this.storage.writeJson(this.textShardPath(shard), this.textShards.get(shard), false)
+		}
+
+		await this.storage.writeJson(`${this.directory}/documents.json`, this.table, false)
+
+		this.postings.clear()
+		this.pendingPostings = 0
+		this.textShards.clear()
+		this.dirtyTextShards.clear()
+		this.pendingText = 0
+	}
+
+	public queuePage(page: string) {
+		this.queuedPages.add(page)
+	}
+
+	public queueThread(category: number, thread: number) {
+		this.queuedThreads.set(`${category}/${thread}`, [category, thread])
+	}
+
+	/**
+	 * Indexes queued pages and threads as they are stored now
+	 */
+	public async update(wiki: WikiDot) {
+		if (this.queuedPages.size == 0 && this.queuedThreads.size == 0) {
+			return
+		}
+
+		for (const page of this.queuedPages) {
+			await this.indexPage(wiki, page)
+		}
+
+		for (const [category, thread] of this.queuedThreads.values()) {
+			await this.indexThread(wiki, category, thread)
+		}
+
+		this.queuedPages.clear()
+		this.queuedThreads.clear()
+		await this.write()
+	}
+
+	/**
+	 * Indexes latest stored revision of page, or removes page from index if it is not stored
+	 */
+	public async indexPage(wiki: WikiDot, page: string) {
+		const meta = await wiki.readPageMetadata(page)
+
+		if (meta === null) {
+			await this.put({kind: 'page', key: page, title: page}, null)
+			return
+		}
+
+		const latest = findMostRevision(meta.revisions)
+		const body = latest !== null ? await wiki.readRevision(meta.name, latest) : null
+
+		await this.put({
+			kind: 'page',
+			key: meta.name,
+			title: meta.title ?? meta.name,
+			tags: meta.tags,
+			revision: body !== null ? latest! : undefined
+		}, body !== null ? markupText(body) : '')
+	}
+
+	/**
+	 * Indexes latest versions of posts of thread, posts which are no longer stored are removed from index
+	 */
+	public async indexThread(wiki: WikiDot, category: number, thread: number) {
+		await this.load()
+
+		const prefix = `post:${category}/${thread}/`
+		const stale = new Set([...this.ids.keys()].filter(key => key.startsWith(prefix)))
+		const value = await wiki.readForumThread(category, thread)
+
+		if (value !== null) {
+			const bodies = await wiki.readPostRevisions(category, thread)
+
+			const walk = async (posts: LocalForumPost[]) => {
+				for (const post of posts) {
+					const key = `${category}/${thread}/${post.id}`
+					stale.delete(`post:${key}`)
+
+					await this.put({kind: 'post', key: key, title: post.title != '' ? post.title : value.title}, htmlText(bodies.get(post.id)?.get('latest') ?? ''))
+					await walk(post.children)
+				}
+			}
+
+			await walk(value.posts)
+		}
+
+		for (const key of stale) {
+			await this.put({kind: 'post', key: key.substring(5), title: ''}, null)
+		}
+	}
+
+	/**
+	 * Builds index from scratch
+	 */
+	public async rebuild(wiki: WikiDot, progress?: (message: string) => void) {
+		await this.storage.rm(this.directory, {recursive: true, force: true})
+
+		this.table = {next_id: 0, documents: {}}
+		this.ids.clear()
+		this.postings.clear()
+		this.pendingPostings = 0
+		this.textShards.clear()
+		this.dirtyTextShards.clear()
+		this.pendingText = 0
+
+		const sitemap = await wiki.readSiteMap()
+
+		if (sitemap !== null) {
+			progress?.(`Indexing ${sitemap.size} pages`)
+
+			for (const page of sitemap.keys()) {
+				await this.indexPage(wiki, page)
+			}
+		}
+
+		for (const category of Object.keys(await wiki.readForumCategories())) {
+			const threads = await wiki.readForumThreadList(parseInt(category))
+			progress?.(`Indexing ${threads.length} threads of forum category ${category}`)
+
+			for (const thread of threads) {
+				await this.indexThread(wiki, parseInt(category), thread)
+			}
+		}
+
+		await this.write()
+	}
+
+	/**
+	 * Finds documents containing every word of query, "quoted words" must appear together.
+	 * Words written together with punctuation, e.g. scp-1234, are treated as quoted
+	 *
+	 * @returns best matches first
+	 */
+	public async search(query: string, limit = 20): Promise<SearchResult[]> {
+		const table = await this.load()
+		const phrases: string[][] = []
+		const terms = new Set<string>()
+
+		for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+			const tokens = tokenize(match[1] ?? match[2])
+
+			if (tokens.length > 1) {
+				phrases.push(tokens)
+			}
+
+			for (const token of tokens) {
+				terms.add(token)
+			}
+		}
+
+		if (terms.size == 0) {
+			return []
+		}
+
+		const shards = new Map<number, TermShard>()
+		const lists: Map<number, number>[] = []
+
+		for (const term of terms) {
+			const shard = shardOf(term)
+			let value = shards.get(shard)
+
+			if (value === undefined) {
+				value = await this.storage.readJson<TermShard>(this.termShardPath(shard)) ?? {}
+				shards.set(shard, value)
+			}
+
+			const stored = value[term] ?? []
+			const list = new Map<number, number>()
+
+			for (let i = 0; i < stored.length; i += 2) {
+				list.set(stored[i], stored[i + 1])
+			}
+
+			lists.push(list)
+		}
+
+		const total = Object.keys(table.documents).length
+		lists.sort((a, b) => a.size - b.size)
+
+		const scored: [number, number][] = []
+
+		for (const id of lists[0].keys()) {
+			let score = 0
+
+			for (const list of lists) {
+				const count = list.get(id)
+
+				if (count === undefined) {
+					score = -1
+					break
+				}
+
+				// more occurrences of rarer words score higher
+				score += Math.log(1 + count) * Math.log(1 + total / list.size)
+			}
+
+			if (score < 0 || table.documents[id] === undefined) {
+				continue
+			}
+
+			const title = tokenize(table.documents[id].title)
+
+			for (const term of terms) {
+				if (title.includes(term)) {
+					score *= 2
+				}
+			}
+
+			scored.push([id, score])
+		}
+
+		scored.sort((a, b) => b[1] - a[1])
+
+		const results: SearchResult[] = []
+
+		for (const [id, score] of scored) {
+			if (results.length >= limit) {
+				break
+			}
+
+			const document = table.documents[id]
+			const text = await this.readText(id)
+
+			if (phrases.length != 0) {
+				const tokens = tokenize(`${document.title}\n${text}`)
+
+				if (!phrases.every(phrase => containsPhrase(tokens, phrase))) {
+					continue
+				}
+			}
+
+			const result: SearchResult = {kind: document.kind, title: document.title, score: score, snippet: snippet(text, [...phrases.map(phrase => phrase.join(' ')), ...terms])}
+
+			if (document.kind == 'page') {
+				result.page = document.key
+				result.revision = document.revision
+			} else {
+				const [category, thread, post] = document.key.split('/').map(value => parseInt(value))
+				result.category = category
+				result.thread = thread
+				result.post = post
+			}
+
+			results.push(result)
+		}
+
+		// texts of shards read during search are not kept, unless they have changes which are not written yet
+		for (const shard of [...this.textShards.keys()]) {
+			if (!this.dirtyTextShards.has(shard)) {
+				this.textShards.delete(shard)
+			}
+		}
+
+		return results
+	}
+}
@@ -0,0 +1,376 @@
+
+import { promises } from 'fs'
+import { CorruptFileError, readJson, writeJson } from './storage'
+
+export interface StorageStat {
+	size: number
+	mtimeMs: number
+	isFile(): boolean
+	isDirectory(): boolean
+}
+
+export interface RemoveOptions {
+	recursive?: boolean
+	// do not fail if path does not exist
+	force?: boolean
+}
+
+/**
+ * Storage of single wiki. Paths are relative to root of wiki and use '/' as separator.
+ *
+ * Methods behave as their counterparts in fs.promises: missing paths are reported by errors
+ * with code ENOENT and files can only be written into existing directories
+ */
+export interface StorageBackend {
+	readFile(path: string): Promise<Buffer>
+	readTextFile(path: string): Promise<string>
+	writeFile(path: string, data: string | Buffer): Promise<void>
+	appendFile(path: string, data: string): Promise<void>
+
+	/**
+	 * @see readJson in storage.ts
+	 */
+	readJson<T>(path: string, onCorrupt?: (err: CorruptFileError) => void): Promise<T | null>
+
+	/**
+	 * Replaces file at once, so it is never partially written
+	 *
+	 * @param backup whenever to keep previous version of file as `<path>.bak`
+	 */
+	writeJson(path: string, value: any, backup?: boolean): Promise<void>
+
+	/**
+	 * Creates directory together with its parents
+	 */
+	mkdir(path: string): Promise<void>
+	readdir(path: string): Promise<string[]>
+	stat(path: string): Promise<StorageStat>
+	unlink(path: string): Promise<void>
+	rm(path: string, options?: RemoveOptions): Promise<void>
+
+	/**
+	 * Moves file or directory, parent directory of destination must exist
+	 */
+	rename(from: string, to: string): Promise<void>
+
+	/**
+	 * Path of file on local file system, used by tools which work with files directly (such as 7z)
+	 *
+	 * @returns null if backend does not keep files on local file system
+	 */
+	localPath(path: string): string | null
+}
+
+/**
+ * Keeps wiki in directory, in layout described in README
+ */
+export class FileSystemBackend implements StorageBackend {
+	constructor(public readonly root: string) {
+
+	}
+
+	public localPath(path: string) {
+		return path == '' ? this.root : `${this.root}/${path}`
+	}
+
+	public readFile(path: string) {
+		return promises.readFile(this.localPath(path))
+	}
+
+	public readTextFile(path: string) {
+		return promises.readFile(this.localPath(path), {encoding: 'utf-8'})
+	}
+
+	public writeFile(path: string, data: string | Buffer) {
+		return promises.writeFile(this.localPath(path), data)
+	}
+
+	public appendFile(path: string, data: string) {
+		return promises.appendFile(this.localPath(path), data)
+	}
+
+	public readJson<T>(path: string, onCorrupt?: (err: CorruptFileError) => void) {
+		return readJson<T>(this.localPath(path), onCorrupt)
+	}
+
+	public writeJson(path: string, value: any, backup = true) {
+		return writeJson(this.localPath(path), value, backup)
+	}
+
+	public async mkdir(path: string) {
+		await promises.mkdir(this.localPath(path), {recursive: true})
+	}
+
+	public readdir(path: string) {
+		return promises.readdir(this.localPath(path))
+	}
+
+	public stat(path: string): Promise<StorageStat> {
+		return promises.stat(this.localPath(path))
+	}
+
+	public unlink(path: string) {
+		return promises.unlink(this.localPath(path))
+	}
+
+	public rm(path: string, options?: RemoveOptions) {
+		return promises.rm(this.localPath(path), options)
+	}
+
+	public rename(from: string, to: string) {
+		return promises.rename(this.localPath(from), this.localPath(to))
+	}
+}
+
+function storageError(code: string, operation: string, path: string) {
+	const err = new Error(`${code}: ${operation} '${path}'`) as NodeJS.ErrnoException
+	err.code = code
+	err.path = path
+	return err
+}
+
+function normalizePath(path: string) {
+	return path.split('/').filter(piece => piece != '' && piece != '.').join('/')
+}
+
+function parentOf(path: string) {
+	const slash = path.lastIndexOf('/')
+	return slash == -1 ? '' : path.substring(0, slash)
+}
+
+/**
+ * Keeps wiki in memory, for tests
+ */
+export class MemoryBackend implements StorageBackend {
+	private readonly files = new Map<string, {data: Buffer, mtimeMs: number}>()
+	// root is always present
+	private readonly directories = new Set<string>([''])
+
+	public localPath(path: string) {
+		return null
+	}
+
+	private fileOf(path: string, operation: string) {
+		const file = this.files.get(normalizePath(path))
+
+		if (file === undefined) {
+			throw storageError(this.directories.has(normalizePath(path)) ? 'EISDIR' : 'ENOENT', operation, path)
+		}
+
+		return file
+	}
+
+	private checkParent(path: string, operation: string) {
+		if (!this.directories.has(parentOf(normalizePath(path)))) {
+			throw storageError('ENOENT', operation, path)
+		}
+
+		if (this.directories.has(normalizePath(path))) {
+			throw storageError('EISDIR', operation, path)
+		}
+	}
+
+	public async readFile(path: string) {
+		return Buffer.from(this.fileOf(path, 'open').data)
+	}
+
+	public async readTextFile(path: string) {
+		return this.fileOf(path, 'open').data.toString('utf-8')
+	}
+
+	public async writeFile(path: string, data: string | Buffer) {
+		this.checkParent(path, 'open')
+		this.files.set(normalizePath(path), {data: Buffer.from(data), mtimeMs: Date.now()})
+	}
+
+	public async appendFile(path: string, data: string) {
+		this.checkParent(path, 'open')
+		const existing = this.files.get(normalizePath(path))
+		this.files.set(normalizePath(path), {data: Buffer.concat([existing?.data ?? Buffer.alloc(0), Buffer.from(data)]), mtimeMs: Date.now()})
+	}
+
+	private async parseJson<T>(path: string): Promise<T | null> {
+		const file = this.files.get(normalizePath(path))
+
+		if (file === undefined) {
+			return null
+		}
+
+		try {
+			return JSON.parse(file.data.toString('utf-8')) as T
+		} catch(err) {
+			throw new CorruptFileError(path, err)
+		}
+	}
+
+	public async readJson<T>(path: string, onCorrupt?: (err: CorruptFileError) => void): Promise<T | null> {
+		try {
+			return await this.parseJson<T>(path)
+		} catch(err) {
+			if (!(err instanceof CorruptFileError) || onCorrupt === undefined) {
+				throw err
+			}
+
+			onCorrupt(err)
+		}
+
+		try {
+			return await this.parseJson<T>(`${path}.bak`)
+		} catch(err) {
+			if (err instanceof CorruptFileError) {
+				onCorrupt(err)
+				return null
+			}
+
+			throw err
+		}
+	}
+
+	public async writeJson(path: string, value: any, backup = true) {
+		const previous = this.files.get(normalizePath(path))
+		await this.writeFile(path, JSON.stringify(value, null, 4))
+
+		if (backup && previous !== undefined) {
+			this.files.set(`${normalizePath(path)}.bak`, previous)
+		}
+	}
+
+	public async mkdir(path: string) {
+		let current = normalizePath(path)
+
+		while (!this.directories.has(current)) {
+			if (this.files.has(current)) {
+				throw storageError('EEXIST', 'mkdir', path)
+			}
+
+			this.directories.add(current)
+			current = parentOf(current)
+		}
+	}
+
+	public async readdir(path: string) {
+		const directory = normalizePath(path)
+
+		if (!this.directories.has(directory)) {
+			throw storageError(this.files.has(directory) ? 'ENOTDIR' : 'ENOENT', 'scandir', path)
+		}
+
+		const list: string[] = []
+
+		for (const entry of [...this.directories, ...this.files.keys()]) {
+			if (entry != '' && entry != directory && parentOf(entry) == directory) {
+				list.push(entry.substring(directory == '' ? 0 : directory.length + 1))
+			}
+		}
+
+		return list.sort()
+	}
+
+	public async stat(path: string): Promise<StorageStat> {
+		const name = normalizePath(path)
+		const file = this.files.get(name)
+
+		if (file !== undefined) {
+			return {size: file.data.length, mtimeMs: file.mtimeMs, isFile: () => true, isDirectory: () => false}
+		}
+
+		if (this.directories.has(name)) {
+			return {size: 0, mtimeMs: 0, isFile: () => false, isDirectory: () => true}
+		}
+
+		throw storageError('ENOENT', 'stat', path)
+	}
+
+	public async unlink(path: string) {
+		this.fileOf(path, 'unlink')
+		this.files.delete(normalizePath(path))
+	}
+
+	public async rm(path: string, options?: RemoveOptions) {
+		const name = normalizePath(path)
+
+		if (this.files.delete(name)) {
+			return
+		}
+
+		if (!this.directories.has(name)) {
+			if (options?.force) {
+				return
+			}
+
+			throw storageError('ENOENT', 'rm', path)
+		}
+
+		if (!options?.recursive) {
+			throw storageError('ERR_FS_EISDIR', 'rm', path)
+		}
+
+		const prefix = `${name}/`
+
+		for (const file of [...this.files.keys()]) {
+			if (name == '' || file.startsWith(prefix)) {
+				this.files.delete(file)
+			}
+		}
+
+		for (const directory of [...this.directories]) {
+			if (directory != '' && (name == '' || directory == name || directory.startsWith(prefix))) {
+				this.directories.delete(directory)
+			}
+		}
+	}
+
+	public async rename(from: string, to: string) {
+		const source = normalizePath(from)
+		const target = normalizePath(to)
+		const file = this.files.get(source)
+
+		if (file === undefined && (!this.directories.has(source) || source == '')) {
+			throw storageError('ENOENT', 'rename', from)
+		}
+
+		if (!this.directories.has(parentOf(target))) {
+			throw storageError('ENOENT', 'rename', to)
+		}
+
+		if (target == source) {
+			return
+		}
+
+		if (file !== undefined) {
+			this.checkParent(to, 'rename')
+			this.files.delete(source)
+			this.files.set(target, file)
+			return
+		}
+
+		if (this.files.has(target)) {
+			throw storageError('ENOTDIR', 'rename', to)
+		}
+
+		if (this.directories.has(target)) {
+			throw storageError('ENOTEMPTY', 'rename', to)
+		}
+
+		if (target.startsWith(`${source}/`)) {
+			throw storageError('EINVAL', 'rename', to)
+		}
+
+		const prefix = `${source}/`
+		const moved = (path: string) => target + path.substring(source.length)
+
+		for (const [path, value] of [...this.files]) {
+			if (path.startsWith(prefix)) {
+				this.files.delete(path)
+				this.files.set(moved(path), value)
+			}
+		}
+
+		for (const directory of [...this.directories]) {
+			if (directory == source || directory.startsWith(prefix)) {
+				this.directories.delete(directory)
+				this.directories.add(moved(directory))
+			}
+		}
+	}
+}
@@ -0,0 +1,479 @@
+
+import { createReadStream, promises } from 'fs'
+import { DaemonConfig, WikiEntry } from './DaemonConfig'
+import { findMostRevision, LocalForumThread, PageMeta, WikiDot } from './WikiDot'
+import { WikiDotUserList } from './WikidotUserList'
+import { Socket } from 'net'
+import { escape } from 'html-escaper'
+import { renderMarkup } from './Markup'
+import { diffRevisions } from './revision_diff'
+
+import http = require('http')
+
+export const DEFAULT_VIEWER_ADDRESS = '127.0.0.1:8080'
+
+export interface PageSummary {
+	name: string
+	title?: string
+	tags?: string[]
+	rating?: number
+	revisions: number
+}
+
+interface PageIndex {
+	// modification time of sitemap index was built from
+	sitemap: number
+	pages: PageSummary[]
+}
+
+class HttpError extends Error {
+	constructor(public readonly status: number, message: string) {
+		super(message)
+	}
+}
+
+function parseId(value: string, what: string) {
+	if (!/^\d+$/.test(value)) {
+		throw new HttpError(400, `Invalid ${what} ${value}`)
+	}
+
+	return parseInt(value)
+}
+
+/**
+ * Rejects names which would escape storage directory when used in paths
+ */
+function checkName(name: string) {
+	if (name == '' || name == '.' || name == '..' || /[\/\\\0]/.test(name)) {
+		throw new HttpError(400, `Invalid name ${name}`)
+	}
+
+	return name
+}
+
+function sendJson(response: http.ServerResponse, status: number, value: any) {
+	response.writeHead(status, {'Content-Type': 'application/json; charset=utf-8'})
+	response.end(JSON.stringify(value))
+}
+
+// HTML and files are written by users of wiki, they must not run scripts on origin of API
+const sandboxed: http.OutgoingHttpHeaders = {'Content-Security-Policy': 'sandbox'}
+
+function sendText(response: http.ServerResponse, type: string, body: string, headers: http.OutgoingHttpHeaders = {}) {
+	response.writeHead(200, {'Content-Type': `${type}; charset=utf-8`, 'X-Content-Type-Options': 'nosniff', ...headers})
+	response.end(body)
+}
+
+/**
+ * Read-only HTTP server which serves stored wikis as JSON, without accessing network
+ *
+ * GET /wikis
+ * GET /wikis/:wiki/pages?tag=&q=
+ * GET /wikis/:wiki/search?q=[&limit=]
+ * GET /wikis/:wiki/pages/:name
+ * GET /wikis/:wiki/pages/:name/html
+ * GET /wikis/:wiki/pages/:name/revisions/:n
+ * GET /wikis/:wiki/pages/:name/revisions/:n/html
+ * GET /wikis/:wiki/pages/:name/diff/:from/:to
+ * GET /wikis/:wiki/files/:page/:id (or file name)
+ * GET /wikis/:wiki/forum
+ * GET /wikis/:wiki/forum/:category
+ * GET /wikis/:wiki/forum/:category/:thread
+ * GET /wikis/:wiki/forum/:category/:thread/posts/:post[?revision=]
+ * GET /users/:id
+ */
+export class ViewerServer {
+	private readonly server = http.createServer((request, response) => this.handle(request, response))
+	private readonly wikis = new Map<string, WikiDot>()
+	private readonly indexes = new Map<string, PageIndex>()
+	private readonly sockets = new Set<Socket>()
+
+	constructor(
+		public readonly config: DaemonConfig,
+		public readonly userList: WikiDotUserList,
+		private readonly entries: WikiEntry[] = config.wikis
+	) {
+		this.server.on('connection', socket => {
+			this.sockets.add(socket)
+			socket.once('close', () => this.sockets.delete(socket))
+		})
+	}
+
+	private log(str: string) {
+		process.stdout.write(`[Viewer Server]: ${str}\n`)
+	}
+
+	private error(str: string) {
+		process.stderr.write(`[Viewer Server]: ${str}\n`)
+	}
+
+	/**
+	 * Returns offline WikiDot object of specified wiki, created once and reused between requests
+	 */
+	private getWiki(name: string) {
+		let wiki = this.wikis.get(name)
+
+		if (wiki !== undefined) {
+			return wiki
+		}
+
+		const entry = this.entries.find(value => value.name == name)
+
+		if (entry === undefined) {
+			throw new HttpError(404, `No such wiki ${name}`)
+		}
+
+		wiki = this.config.makeWiki(entry, null, false)
+		// nothing is written by the server
+		wiki.stopMetaSyncTimer()
+
+		this.wikis.set(name, wiki)
+		return wiki
+	}
+
+	/**
+	 * Summaries of every page in sitemap, rebuilt when sitemap changes
+	 */
+	private async pageIndex(name: string, wiki: WikiDot) {
+		let stamp: number
+
+		try {
+			stamp = (await promises.stat(`${wiki.workingDirectory}/meta/sitemap.json`)).mtimeMs
+		} catch(err) {
+			return []
+		}
+
+		const cached = this.indexes.get(name)
+
+		if (cached !== undefined && cached.sitemap == stamp) {
+			return cached.pages
+		}
+
+		const sitemap = await wiki.readSiteMap() ?? new Map<string, number | null>()
+		const pages: PageSummary[] = []
+
+		for (const page of sitemap.keys()) {
+			const meta = await wiki.readPageMetadata(page)
+
+			if (meta !== null) {
+				pages.push({
+					name: meta.name,
+					title: meta.title,
+					tags: meta.tags,
+					rating: meta.rating,
+					revisions: meta.revisions.length
+				})
+			}
+		}
+
+		pages.sort((a, b) => a.name.localeCompare(b.name))
+		this.indexes.set(name, {sitemap: stamp, pages: pages})
+		return pages
+	}
+
+	private async searchPages(name: string, query: URLSearchParams) {
+		const tags = query.getAll('tag')
+		const text = query.get('q')?.toLowerCase()
+
+		return (await this.pageIndex(name, this.getWiki(name))).filter(page => {
+			if (tags.some(tag => !page.tags?.includes(tag))) {
+				return false
+			}
+
+			return text === undefined || page.name.toLowerCase().includes(text) || (page.title?.toLowerCase().includes(text) ?? false)
+		})
+	}
+
+	private async readPage(wiki: WikiDot, page: string) {
+		const meta = await wiki.readPageMetadata(checkName(page))
+
+		if (meta === null) {
+			throw new HttpError(404, `No such page ${page}`)
+		}
+
+		return meta
+	}
+
+	private async readThread(wiki: WikiDot, category: number, thread: number) {
+		const value = await wiki.readForumThread(category, thread)
+
+		if (value === null) {
+			throw new HttpError(404, `No such thread ${thread} in category ${category}`)
+		}
+
+		return value
+	}
+
+	/**
+	 * Renders revision markup as standalone document, with links pointing back at the server
+	 */
+	private async sendRendered(response: http.ServerResponse, name: string, wiki: WikiDot, meta: PageMeta, revision: number | null) {
+		const body = revision !== null ? await wiki.readRevision(meta.name, revision) : null
+
+		if (body === null) {
+			throw new HttpError(404, `Revision ${revision} of ${meta.name} is not stored`)
+		}
+
+		const base = `/wikis/${encodeURIComponent(name)}`
+
+		const html = await renderMarkup(body, {
+			page: meta.name,
+			rating: meta.rating,
+			host: new URL(this.entries.find(entry => entry.name == name)!.url).hostname,
+			pageUrl: page => `${base}/pages/${encodeURIComponent(page)}/html`,
+			fileUrl: (page, file) => `${base}/files/${encodeURIComponent(page)}/${encodeURIComponent(file)}`,
+			include: page => wiki.readLatestRevision(page).catch(() => null)
+		})
+
+		sendText(response, 'text/html', `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escape(meta.title ?? meta.name)}</title>
+</head>
+<body>
+<div id="page-content">
+${html}
+</div>
+</body>
+</html>
+`, sandboxed)
+	}
+
+	/**
+	 * @param id file ID or name
+	 */
+	private async sendFile(response: http.ServerResponse, wiki: WikiDot, page: string, id: string) {
+		const meta = await this.readPage(wiki, page)
+		const file = meta.files.find(file => file.file_id.toString() == id || file.name == id)
+
+		if (file === undefined) {
+			throw new HttpError(404, `No file ${id} on page ${page}`)
+		}
+
+		const path = WikiDot.storedFilePath(file)
+		const size = path !== null ? await wiki.storage.stat(path).then(stat => stat.size, () => null) : null
+
+		if (path === null || size === null) {
+			throw new HttpError(404, `File ${file.name} of page ${page} is not stored`)
+		}
+
+		response.writeHead(200, {
+			'Content-Type': file.mime != '' ? file.mime : 'application/octet-stream',
+			'Content-Length': size,
+			'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+			'X-Content-Type-Options': 'nosniff',
+			...sandboxed
+		})
+
+		const local = wiki.storage.localPath(path)
+
+		if (local === null) {
+			response.end(await wiki.storage.readFile(path))
+			return
+		}
+
+		await new Promise<void>((resolve) => {
+			const stream = createReadStream(local)
+
+			stream.on('error', err => {
+				this.error(`Unable to read ${local}: ${err}`)
+				response.destroy()
+				resolve()
+			})
+
+			stream.on('end', resolve)
+			stream.pipe(response)
+		})
+	}
+
+	private async route(path: string[], query: URLSearchParams, response: http.ServerResponse) {
+		if (path.length == 2 && path[0] == 'users') {
+			const user = await this.userList.read(parseId(path[1], 'user'))
+
+			if (user === null) {
+				throw new HttpError(404, `No such user ${path[1]}`)
+			}
+
+			return sendJson(response, 200, user)
+		}
+
+		if (path[0] != 'wikis') {
+			throw new HttpError(404, 'Not found')
+		}
+
+		if (path.length == 1) {
+			return sendJson(response, 200, this.entries.map(entry => {return {name: entry.name, url: entry.url}}))
+		}
+
+		const wiki = this.getWiki(path[1])
+		const [, , section, ...rest] = path
+
+		if (section == 'search' && rest.length == 0) {
+			const text = query.get('q')
+
+			if (text === null || text.trim() == '') {
+				throw new HttpError(400, 'No query specified')
+			}
+
+			const limit = query.get('limit')
+			return sendJson(response, 200, await wiki.searchIndex.search(text, limit !== null ? parseId(limit, 'limit') : undefined))
+		}
+
+		if (section == 'pages') {
+			if (rest.length == 0) {
+				return sendJson(response, 200, await this.searchPages(path[1], query))
+			}
+
+			const meta = await this.readPage(wiki, rest[0])
+
+			if (rest.length == 1) {
+				return sendJson(response, 200, meta)
+			}
+
+			if (rest.length == 2 && rest[1] == 'html') {
+				return await this.sendRendered(response, path[1], wiki, meta, findMostRevision(meta.revisions))
+			}
+
+			if (rest.length == 4 && rest[1] == 'revisions' && rest[3] == 'html') {
+				return await this.sendRendered(response, path[1], wiki, meta, parseId(rest[2], 'revision'))
+			}
+
+			if (rest.length == 4 && rest[1] == 'diff') {
+				const [from, to] = [parseId(rest[2], 'revision'), parseId(rest[3], 'revision')]
+				let diff
+
+				try {
+					diff = await diffRevisions(wiki, meta.name, from, to, this.userList)
+				} catch(err) {
+					throw new HttpError(404, (err as Error).message)
+				}
+
+				return sendJson(response, 200, diff)
+			}
+
+			if (rest.length == 3 && rest[1] == 'revisions') {
+				const revision = parseId(rest[2], 'revision')
+				const body = await wiki.readRevision(meta.name, revision)
+
+				if (body === null) {
+					throw new HttpError(404, `Revision ${revision} of ${meta.name} is not stored`)
+				}
+
+				return sendText(response, 'text/plain', body)
+			}
+		}
+
+		if (section == 'files' && rest.length == 2) {
+			return await this.sendFile(response, wiki, rest[0], rest[1])
+		}
+
+		if (section == 'forum') {
+			if (rest.length == 0) {
+				return sendJson(response, 200, Object.values(await wiki.readForumCategories()))
+			}
+
+			const category = parseId(rest[0], 'category')
+
+			if (rest.length == 1) {
+				const threads: Omit<LocalForumThread, 'posts'>[] = []
+
+				for (const id of await wiki.readForumThreadList(category)) {
+					const thread = await wiki.readForumThread(category, id)
+
+					if (thread !== null) {
+						const {posts, ...summary} = thread
+						threads.push(summary)
+					}
+				}
+
+				return sendJson(response, 200, threads)
+			}
+
+			const thread = await this.readThread(wiki, category, parseId(rest[1], 'thread'))
+
+			if (rest.length == 2) {
+				return sendJson(response, 200, thread)
+			}
+
+			if (rest.length == 4 && rest[2] == 'posts') {
+				const post = parseId(rest[3], 'post')
+				const revision = query.get('revision')
+				const body = await wiki.readPostRevision(category, thread.id, post, revision === null ? 'latest' : parseId(revision, 'revision'))
+
+				if (body === null) {
+					throw new HttpError(404, `Post ${post} is not stored`)
+				}
+
+				return sendText(response, 'text/html', body, sandboxed)
+			}
+		}
+
+		throw new HttpError(404, 'Not found')
+	}
+
+	private async handle(request: http.IncomingMessage, response: http.ServerResponse) {
+		try {
+			if (request.method != 'GET' && request.method != 'HEAD') {
+				throw new HttpError(405, `Method ${request.method} is not allowed`)
+			}
+
+			const url = new URL(request.url ?? '/', 'http://localhost')
+			let path: string[]
+
+			try {
+				path = url.pathname.split('/').filter(part => part != '').map(decodeURIComponent)
+			} catch(err) {
+				throw new HttpError(400, 'Malformed path')
+			}
+
+			await this.route(path, url.searchParams, response)
+		} catch(err) {
+			if (response.headersSent) {
+				response.destroy()
+			} else if (err instanceof HttpError) {
+				sendJson(response, err.status, {error: err.message})
+			} else {
+				this.error(`Error while serving ${request.url}: ${err}`)
+				sendJson(response, 500, {error: 'Internal server error'})
+			}
+		}
+	}
+
+	/**
+	 * @param address host:port to listen on
+	 */
+	public async listen(address = DEFAULT_VIEWER_ADDRESS) {
+		const separator = address.lastIndexOf(':')
+		const host = separator == -1 ? '127.0.0.1' : address.substring(0, separator)
+		const port = parseInt(separator == -1 ? address : address.substring(separator + 1))
+
+		if (isNaN(port)) {
+			throw new Error(`Invalid address ${address}`)
+		}
+
+		await new Promise<void>((resolve, reject) => {
+			this.server.once('error', reject)
+
+			this.server.listen(port, host, () => {
+				this.server.off('error', reject)
+				resolve()
+			})
+		})
+
+		this.log(`Serving ${this.entries.length} wiki(s) on http://${host}:${port}/wikis`)
+	}
+
+	/**
+	 * Stops listening and drops open connections, including idle keep-alive ones
+	 */
+	public async close() {
+		const closed = new Promise(resolve => this.server.close(resolve))
+
+		for (const socket of this.sockets) {
+			socket.destroy()
+		}
+
+		await closed
+	}
+}
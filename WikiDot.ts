@@ -26,10 +26,18 @@ import { HTTPClient, HTTPError, RequestConfig } from './HTTPClient'
 import { parse, HTMLElement, TextNode } from 'node-html-parser'
 import { promises, read } from 'fs'
 import { promisify } from 'util'
-import { addZipFiles, listZipFiles } from "./7z-helper"
+import { tmpdir } from 'os'
+import { addZipFiles, extractZipFiles, listZipFiles, readZipFile } from "./7z-helper"
 import { OutgoingHttpHeaders } from "http2"
 import { blockingQueue, parallel, PromiseQueue } from "./worker"
 import { WikiDotUserList } from "./WikidotUserList"
+import { EventEmitter } from "events"
+import { PagePolicy, PageRules } from "./PageRules"
+import { linkOrCopyFile, sha256 } from "./storage"
+import { FileSystemBackend, StorageBackend } from "./StorageBackend"
+import { diffPageMeta, PageHistoryEntry, PageSnapshot, replayHistory } from "./PageHistory"
+import { Graveyard, Tombstone } from "./Graveyard"
+import { SearchIndex } from "./SearchIndex"
 
 const sleep = promisify(setTimeout)
 
@@ -39,6 +47,7 @@ export interface RecentChange {
 	name: string
 	revision?: number
 	author: UserID
+	stamp?: number
 }
 
 export interface PageRevision {
@@ -48,6 +57,8 @@ export interface PageRevision {
 	stamp?: number
 	flags?: string
 	commentary?: string
+	// SHA-256 of revision body, as written to disk
+	sha256?: string
 }
 
 export function findMostRevision(list: PageRevision[]) {
@@ -101,6 +112,8 @@ export interface FileMeta {
 	content: string
 	author: UserID
 	stamp: number
+	// SHA-256 of downloaded file, also recorded in files/<page>/manifest.json
+	sha256?: string
 
 	internal_version?: number
 }
@@ -202,6 +215,8 @@ export interface ForumPost extends ForumRevisionBody, HeadlessForumPost {
 export interface LocalForumPost extends HeadlessForumPost {
 	revisions: LocalPostRevision[]
 	children: LocalForumPost[]
+	// SHA-256 of latest.html
+	latest_sha256?: string
 }
 
 export interface PostRevision {
@@ -212,6 +227,8 @@ export interface PostRevision {
 
 export interface LocalPostRevision extends PostRevision {
 	title: string
+	// SHA-256 of revision HTML
+	sha256?: string
 }
 
 export function findPostRevision(list: LocalPostRevision[], id: number): LocalPostRevision | null {
@@ -260,6 +277,7 @@ export interface LocalForumThread extends ForumThread {
 
 class DiskMeta<T> {
 	constructor(
+		private storage: StorageBackend,
 		public data: T,
 		private path: string,
 		private dataFixer?: (v: any) => T
@@ -272,9 +290,7 @@ class DiskMeta<T> {
 	private initializeCallbacks: any[] = []
 	private initializeRejects: any[] = []
 	private metaIsDirty = false
-	private metaIsSyncing = false
-	private metaSyncCallbacks: any[] = []
-	private metaSyncRejects: any[] = []
+	private metaSyncing: Promise<void> | null = null
 	private writeOnce = false
 
 	public markDirty() {
@@ -288,7 +304,11 @@ class DiskMeta<T> {
 			return
 		}
 
-		this.metaSyncTimer = setInterval(() => this.sync(), timeout)
+		this.metaSyncTimer = setInterval(() => {
+			this.sync().catch(err => {
+				process.stderr.write(`Unable to write ${this.storage.localPath(this.path) ?? this.path}: ${err}\n`)
+			})
+		}, timeout)
 	}
 
 	public stopTimer() {
@@ -300,49 +320,45 @@ class DiskMeta<T> {
 		this.metaSyncTimer = null
 	}
 
-	public sync(): Promise<void> {
-		return new Promise(async (resolve, reject) => {
-			if (!this.metaIsDirty || !this.initialized) {
-				resolve()
-				return
-			}
-
-			if (this.metaIsSyncing) {
-				this.metaSyncCallbacks.push(resolve)
-				this.metaSyncRejects.push(reject)
-				return
-			}
-
-			try {
-				if (!this.writeOnce) {
-					const split = this.path.split('/')
-					split.pop()
-					await promises.mkdir(split.join('/'), {recursive: true})
-					this.writeOnce = true
-				}
+	/**
+	 * Writes data to disk if it is dirty. If data is being written already, waits for it
+	 * and writes again if data got changed meanwhile
+	 */
+	public async sync(): Promise<void> {
+		while (this.metaSyncing !== null) {
+			await this.metaSyncing.catch(() => {})
+		}
 
-				const json = JSON.stringify(this.data, null, 4)
+		if (!this.metaIsDirty || !this.initialized) {
+			return
+		}
 
-				await promises.writeFile(this.path, json)
-				this.metaIsDirty = false
+		this.metaSyncing = this.write()
 
-				resolve()
+		try {
+			await this.metaSyncing
+		} finally {
+			this.metaSyncing = null
+		}
+	}
 
-				for (const callback of this.metaSyncCallbacks) {
-					callback()
-				}
-			} catch(err) {
-				reject(err)
+	private async write() {
+		if (!this.writeOnce) {
+			const split = this.path.split('/')
+			split.pop()
+			await this.storage.mkdir(split.join('/'))
+			this.writeOnce = true
+		}
 
-				for (const callback of this.metaSyncRejects) {
-					callback(err)
-				}
-			}
+		// changes made while writing mark data dirty again
+		this.metaIsDirty = false
 
-			this.metaSyncCallbacks = []
-			this.metaSyncRejects = []
-			this.metaIsSyncing = false
-		})
+		try {
+			await this.storage.writeJson(this.path, this.data)
+		} catch(err) {
+			this.metaIsDirty = true
+			throw err
+		}
 	}
 
 	public initialize(): Promise<void> {
@@ -359,10 +375,13 @@ class DiskMeta<T> {
 			}
 
 			try {
-				const read = await promises.readFile(this.path, {encoding: 'utf-8'})
-				const json = JSON.parse(read)
+				const json = await this.storage.readJson<any>(this.path, err => {
+					process.stderr.write(`${err.message}, using previous version if it is intact\n`)
+				})
 
-				if (this.dataFixer == undefined) {
+				if (json === null) {
+					throw new Error(`${this.path} does not exist`)
+				} else if (this.dataFixer == undefined) {
 					this.data = json
 				} else {
 					this.data = this.dataFixer(json)
@@ -400,6 +419,11 @@ interface FileMap {
 	[key: string]: {url: string, path: string}
 }
 
+interface FileManifest {
+	// file id -> checksum of downloaded file
+	[key: string]: {sha256: string, size: number}
+}
+
 interface PendingRevisions {
 	// revision -> page
 	[key: string]: number
@@ -410,6 +434,102 @@ interface PageIdMap {
 	[key: string]: string
 }
 
+interface ChangesCheckpoint {
+	// stamp of newest recent change which is known to be backed up
+	stamp?: number
+}
+
+interface SearchQueue {
+	// pages and threads (as category/thread) written since search index was last updated
+	pages?: string[]
+	threads?: string[]
+}
+
+interface RunJournal {
+	// when interrupted sitemap scan was started
+	started?: number
+	// sitemap fetched by interrupted scan
+	sitemap?: [string, number | null][]
+	// pages which interrupted scan already backed up
+	done?: string[]
+	// pages of sitemap excluded by page rules
+	excluded?: string[]
+}
+
+export type ContentType = 'pages' | 'forum' | 'files'
+
+export interface WorkLoopOptions {
+	// renew only pages listed in recent changes since last checkpoint
+	incremental?: boolean
+	// how old (in milliseconds) checkpoint can be before falling back to sitemap scan
+	maxCheckpointAge?: number
+	// back up only this part of wiki
+	only?: ContentType
+	// only report which pages would be renewed, without fetching or writing anything
+	dryRun?: boolean
+}
+
+export interface PageVerification {
+	page: string
+	// whether page metadata is present at all
+	metadata: boolean
+	// revisions listed in metadata which are not stored or do not match their checksum
+	missing_revisions: number[]
+	// files listed in metadata which are not stored, have wrong size or do not match their checksum
+	missing_files: number[]
+}
+
+export interface ThreadVerification {
+	category: number
+	thread: number
+	// posts listed in metadata without their latest.html, or with one not matching its checksum
+	missing_posts: number[]
+	// post revisions listed in metadata which are not stored or do not match their checksum, as [post, revision]
+	missing_revisions: [number, number][]
+}
+
+export interface PageIdMapVerification {
+	// pages which have metadata, but are absent from page_id_map.json or mapped under different name
+	unmapped: string[]
+	// ids in page_id_map.json which point to pages without metadata
+	stale: number[]
+}
+
+export type WorkPhase = 'sitemap' | 'pages' | 'forum' | 'pending_files' | 'pending_revisions' | 'compress' | 'finished'
+
+export interface FailureEvent {
+	message: string
+	page?: string
+	revision?: number
+	global_revision?: number
+	file?: number
+	category?: number
+	thread?: number
+	post?: number
+}
+
+export interface WikiDotEvents {
+	log: [message: string]
+	failure: [event: FailureEvent]
+	phase: [event: {phase: WorkPhase}]
+	sitemap: [event: {pages: number}]
+	page: [event: {page: string, meta: PageMeta}]
+	revision: [event: {page: string, revision: PageRevision, body: string}]
+	file: [event: {page: string, file_id: number, url: string, size: number}]
+	thread: [event: {category: number, thread: LocalForumThread}]
+}
+
+export interface WikiDot {
+	on<K extends keyof WikiDotEvents>(event: K, listener: (...args: WikiDotEvents[K]) => void): this
+	once<K extends keyof WikiDotEvents>(event: K, listener: (...args: WikiDotEvents[K]) => void): this
+	off<K extends keyof WikiDotEvents>(event: K, listener: (...args: WikiDotEvents[K]) => void): this
+	emit<K extends keyof WikiDotEvents>(event: K, ...args: WikiDotEvents[K]): boolean
+}
+
+export class WorkAbortedError extends Error {
+
+}
+
 export class Lock {
 	private locks: any[] = []
 	private _isLocked = false
@@ -444,19 +564,26 @@ export class Lock {
 	}
 }
 
-export class WikiDot {
+export class WikiDot extends EventEmitter {
 	private static readonly usernameMatcher = /user:info\/(.*)/
 	private static readonly useridMatcher = /WIKIDOT.page.listeners.userInfo\((\d+)\);/
 
 	// spoon library
 	private static readonly urlMatcher = /(((http|ftp|https):\/{2})+(([0-9a-z_-]+\.)+(aero|asia|biz|cat|com|coop|edu|gov|info|int|jobs|mil|mobi|museum|name|net|org|pro|tel|travel|ac|ad|ae|af|ag|ai|al|am|an|ao|aq|ar|as|at|au|aw|ax|az|ba|bb|bd|be|bf|bg|bh|bi|bj|bm|bn|bo|br|bs|bt|bv|bw|by|bz|ca|cc|cd|cf|cg|ch|ci|ck|cl|cm|cn|co|cr|cu|cv|cx|cy|cz|cz|de|dj|dk|dm|do|dz|ec|ee|eg|er|es|et|eu|fi|fj|fk|fm|fo|fr|ga|gb|gd|ge|gf|gg|gh|gi|gl|gm|gn|gp|gq|gr|gs|gt|gu|gw|gy|hk|hm|hn|hr|ht|hu|id|ie|il|im|in|io|iq|ir|is|it|je|jm|jo|jp|ke|kg|kh|ki|km|kn|kp|kr|kw|ky|kz|la|lb|lc|li|lk|lr|ls|lt|lu|lv|ly|ma|mc|md|me|mg|mh|mk|ml|mn|mn|mo|mp|mr|ms|mt|mu|mv|mw|mx|my|mz|na|nc|ne|nf|ng|ni|nl|no|np|nr|nu|nz|nom|pa|pe|pf|pg|ph|pk|pl|pm|pn|pr|ps|pt|pw|py|qa|re|ra|rs|ru|rw|sa|sb|sc|sd|se|sg|sh|si|sj|sj|sk|sl|sm|sn|so|sr|st|su|sv|sy|sz|tc|td|tf|tg|th|tj|tk|tl|tm|tn|to|tp|tr|tt|tv|tw|tz|ua|ug|uk|us|uy|uz|va|vc|ve|vg|vi|vn|vu|wf|ws|ye|yt|yu|za|zm|zw|arpa)(:[0-9]+)?((\/([~0-9a-zA-Z\#\+\%@\.\/_-]+))?(\?[0-9a-zA-Z\+\%@\/&\[\];=_-]+)?)?))\b/ig
 	public static readonly defaultPagenation = 100
-
-	private readonly pendingFiles: DiskMeta<number[]> = new DiskMeta([], `${this._workingDirectory}/meta/pending_files.json`)
-	private readonly pendingPages: DiskMeta<string[]> = new DiskMeta([], `${this._workingDirectory}/meta/pending_pages.json`)
-	private readonly fileMap: DiskMeta<FileMap> = new DiskMeta({}, `${this._workingDirectory}/meta/file_map.json`)
-	private readonly pageIdMap: DiskMeta<PageIdMap> = new DiskMeta({}, `${this._workingDirectory}/meta/page_id_map.json`)
-	private readonly pendingRevisions: DiskMeta<PendingRevisions> = new DiskMeta({}, `${this._workingDirectory}/meta/pending_revisions.json`)
+	public static readonly defaultCheckpointAge = 7 * 24 * 3600 * 1000
+	public static readonly contentTypes: ContentType[] = ['pages', 'forum', 'files']
+	// interrupted sitemap scan older than this is started over
+	public static readonly journalMaxAge = 24 * 3600 * 1000
+
+	private readonly pendingFiles: DiskMeta<number[]> = new DiskMeta(this.storage, [], `meta/pending_files.json`)
+	private readonly pendingPages: DiskMeta<string[]> = new DiskMeta(this.storage, [], `meta/pending_pages.json`)
+	private readonly fileMap: DiskMeta<FileMap> = new DiskMeta(this.storage, {}, `meta/file_map.json`)
+	private readonly pageIdMap: DiskMeta<PageIdMap> = new DiskMeta(this.storage, {}, `meta/page_id_map.json`)
+	private readonly pendingRevisions: DiskMeta<PendingRevisions> = new DiskMeta(this.storage, {}, `meta/pending_revisions.json`)
+	private readonly changesCheckpoint: DiskMeta<ChangesCheckpoint> = new DiskMeta(this.storage, {}, `meta/recent_changes.json`)
+	private readonly journal: DiskMeta<RunJournal> = new DiskMeta(this.storage, {}, `meta/journal.json`)
+	private readonly searchQueue: DiskMeta<SearchQueue> = new DiskMeta(this.storage, {}, `meta/search_queue.json`)
 
 	private ajaxURL: URL
 
@@ -573,6 +700,9 @@ export class WikiDot {
 		this.fileMap.startTimer(timeout)
 		this.pendingRevisions.startTimer(timeout)
 		this.pageIdMap.startTimer(timeout)
+		this.changesCheckpoint.startTimer(timeout)
+		this.journal.startTimer(timeout)
+		this.searchQueue.startTimer(timeout)
 	}
 
 	public stopMetaSyncTimer() {
@@ -581,6 +711,9 @@ export class WikiDot {
 		this.fileMap.stopTimer()
 		this.pendingRevisions.stopTimer()
 		this.pageIdMap.stopTimer()
+		this.changesCheckpoint.stopTimer()
+		this.journal.stopTimer()
+		this.searchQueue.stopTimer()
 	}
 
 	public syncMeta() {
@@ -590,20 +723,83 @@ export class WikiDot {
 			this.fileMap.sync(),
 			this.pendingRevisions.sync(),
 			this.pageIdMap.sync(),
+			this.changesCheckpoint.sync(),
+			this.journal.sync(),
+			this.searchQueue.sync(),
 		])
 	}
 
+	/**
+	 * Stops periodic metadata writes and writes everything pending to disk, including cookies.
+	 * Used when shutting down, after work was aborted
+	 */
+	public async flush() {
+		this.stopMetaSyncTimer()
+		await this.syncMeta()
+		await this.updateSearchIndex()
+
+		if (this.client !== null) {
+			await this.saveCookies()
+		}
+	}
+
+	private async updateSearchIndex() {
+		if (!this.indexing) {
+			return
+		}
+
+		// queue is kept on disk until index is written, so pages written before crash are indexed on next run
+		const pages = [...this.searchQueue.data.pages ?? []]
+		const threads = [...this.searchQueue.data.threads ?? []]
+
+		if (pages.length == 0 && threads.length == 0) {
+			return
+		}
+
+		for (const page of pages) {
+			this.searchIndex.queuePage(page)
+		}
+
+		for (const thread of threads) {
+			const [category, id] = thread.split('/')
+			this.searchIndex.queueThread(parseInt(category), parseInt(id))
+		}
+
+		try {
+			await this.searchIndex.update(this)
+		} catch(err) {
+			this.error(`Unable to update search index: ${err}`)
+			return
+		}
+
+		// pages and threads first queued during update stay queued
+		this.searchQueue.data.pages = this.searchQueue.data.pages?.filter(page => !pages.includes(page))
+		this.searchQueue.data.threads = this.searchQueue.data.threads?.filter(thread => !threads.includes(thread))
+		this.searchQueue.markDirty()
+		await this.searchQueue.sync()
+	}
+
+	private queueSearchPage(page: string) {
+		if (pushToSet(this.searchQueue.data.pages ??= [], page)) {
+			this.searchQueue.markDirty()
+		}
+	}
+
+	private queueSearchThread(category: number, thread: number) {
+		if (pushToSet(this.searchQueue.data.threads ??= [], `${category}/${thread}`)) {
+			this.searchQueue.markDirty()
+		}
+	}
+
 	private async loadCookies() {
 		if (this.client === null) {
 			throw new Error(`This object is in offline mode`)
 		}
 
-		try {
-			const read = await promises.readFile(`${this._workingDirectory}/http_cookies.json`, {encoding: 'utf-8'})
-			const json = JSON.parse(read)
-			this.client.cookies.load(json)
-		} catch(err) {
+		const json = await this.readMeta<any>('http_cookies.json')
 
+		if (json !== null) {
+			this.client.cookies.load(json)
 		}
 	}
 
@@ -612,9 +808,9 @@ export class WikiDot {
 			throw new Error(`This object is in offline mode`)
 		}
 
-		await promises.mkdir(this._workingDirectory, {recursive: true})
+		await this.storage.mkdir('')
 		const json = this.client.cookies.save()
-		await promises.writeFile(`${this._workingDirectory}/http_cookies.json`, JSON.stringify(json, null, 4))
+		await this.storage.writeJson(`http_cookies.json`, json, false)
 	}
 
 	private initialize() {
@@ -624,6 +820,9 @@ export class WikiDot {
 			this.fileMap.initialize(),
 			this.pendingRevisions.initialize(),
 			this.pageIdMap.initialize(),
+			this.changesCheckpoint.initialize(),
+			this.journal.initialize(),
+			this.searchQueue.initialize(),
 		]
 
 		if (this.client !== null) {
@@ -637,6 +836,9 @@ export class WikiDot {
 		return this._workingDirectory
 	}
 
+	public readonly graveyard = new Graveyard(this.storage)
+	public readonly searchIndex = new SearchIndex(this.storage)
+
 	constructor(
 		private name: string,
 		private url: string = `https://${name}.wikidot.com`,
@@ -645,8 +847,18 @@ export class WikiDot {
 		public queue: PromiseQueue | null,
 		public userList: WikiDotUserList | null,
 		handleCookies = true,
-		private blacklist: string[] = []
+		private blacklist: string[] = [],
+		private content: ContentType[] = WikiDot.contentTypes,
+		private rules: PageRules = new PageRules(),
+		// move removed pages and files into graveyard instead of deleting them
+		private tombstones = false,
+		// keep search index up to date with written pages and threads
+		private indexing = false,
+		// where wiki is stored
+		public readonly storage: StorageBackend = new FileSystemBackend(_workingDirectory)
 	) {
+		super()
+		this.setConsoleLogging(true)
 		this.ajaxURL = new URL(`${this.url}/ajax-module-connector.php`)
 		this.startMetaSyncTimer()
 
@@ -685,12 +897,69 @@ export class WikiDot {
 		}
 	}
 
+	/**
+	 * Requests currently running workLoop to stop as soon as possible
+	 */
+	public abort() {
+		this.queue?.stop()
+	}
+
+	public get isAborted() {
+		return this.queue !== null && this.queue.stopped
+	}
+
+	private throwIfAborted() {
+		if (this.isAborted) {
+			throw new WorkAbortedError(`Backup of ${this.name} was aborted`)
+		}
+	}
+
+	private readonly consoleLog = (message: string) => {
+		process.stdout.write(`[${this.name}]: ${message}\n`)
+	}
+
+	private readonly consoleError = (event: FailureEvent) => {
+		process.stderr.write(`[${this.name}]: ${event.message}\n`)
+	}
+
+	/**
+	 * Enables or disables writing of log and failure events to stdout/stderr
+	 */
+	public setConsoleLogging(enabled: boolean) {
+		this.off('log', this.consoleLog)
+		this.off('failure', this.consoleError)
+
+		if (enabled) {
+			this.on('log', this.consoleLog)
+			this.on('failure', this.consoleError)
+		}
+	}
+
 	private log(str: string) {
-		process.stdout.write(`[${this.name}]: ${str}\n`)
+		this.emit('log', str)
+	}
+
+	private error(str: any, context?: Omit<FailureEvent, 'message'>) {
+		this.emit('failure', {...context, message: String(str)})
 	}
 
-	private error(str: string) {
-		process.stderr.write(`[${this.name}]: ${str}\n`)
+	/**
+	 * Reads JSON file inside working directory. Corrupt file is reported and its previous version is used
+	 * if it is intact, otherwise it is treated as missing
+	 */
+	private async readMeta<T>(path: string, context?: Omit<FailureEvent, 'message'>): Promise<T | null> {
+		try {
+			return await this.storage.readJson<T>(path, err => {
+				this.error(`${err.message}, using previous version if it is intact`, context)
+			})
+		} catch(err) {
+			this.error(`Unable to read ${this._workingDirectory}/${path}: ${err}`, context)
+			return null
+		}
+	}
+
+	private phase(phase: WorkPhase) {
+		this.emit('phase', {phase: phase})
 	}
 
 	public async fetchToken(force = false) {
@@ -822,6 +1091,7 @@ export class WikiDot {
 			const revisionText = elem.querySelector('td.revision-no')?.textContent
 			const revision = revisionText?.match(/([0-9]+)/)
 			const mod_by = this.matchAndFetchUser(elem.querySelector('td.mod-by'))
+			const time = elem.querySelector('td.mod-date')?.querySelector('span.odate')?.attrs['class']?.match(WikiDot.dateMatcher)
 
 			if (url != undefined) {
 				const obj: RecentChange = {
@@ -836,6 +1106,10 @@ export class WikiDot {
 					obj.revision = 0
 				}
 
+				if (time != null) {
+					obj.stamp = parseInt(time[1])
+				}
+
 				listing.push(obj)
 			}
 		}
@@ -1359,7 +1633,7 @@ export class WikiDot {
 			try {
 				return await this.fetchIsThreadLocked(threadId)
 			} catch(err) {
-				this.error(`Encountered ${err} while fetching lock status of thread ${threadId}, sleeping for 5 seconds`)
+				this.error(`Encountered ${err} while fetching lock status of thread ${threadId}, sleeping for 5 seconds`, {thread: threadId})
 				await sleep(5_000)
 			}
 		}
@@ -1635,14 +1909,54 @@ export class WikiDot {
 		this.fileMap.markDirty()
 	}
 
-	public async fileExists(page_id: string, file_id: number, size?: number) {
+	/**
+	 * Path of downloaded file relative to root of wiki. Files are stored by directory in their
+	 * local--files URL, which is not always name of the page (e.g. component%3Afoo)
+	 *
+	 * @returns null if file is not hosted in local--files
+	 */
+	public static storedFilePath(file: FileMeta): string | null {
+		const match = WikiDot.splitFilePathRaw(file.url)
+		return match !== null ? `files/${match[0]}/${file.file_id}` : null
+	}
+
+	/**
+	 * Places copy of downloaded file at destination on local file system, as hard link if possible
+	 *
+	 * @throws Error if file is not stored
+	 */
+	public async copyStoredFile(file: FileMeta, destination: string) {
+		const path = WikiDot.storedFilePath(file)
+
+		if (path === null) {
+			throw new Error(`File ${file.file_id} is not hosted in local--files`)
+		}
+
+		const local = this.storage.localPath(path)
+
+		if (local !== null) {
+			await linkOrCopyFile(local, destination)
+		} else {
+			await promises.writeFile(destination, await this.storage.readFile(path))
+		}
+	}
+
+	/**
+	 * @param sha256sum if specified, contents of file are checked against it
+	 */
+	public async fileExists(page_id: string, file_id: number, size?: number, sha256sum?: string) {
 		try {
-			const stats = await promises.stat(`${this._workingDirectory}/files/${page_id}/${file_id}`)
+			const stats = await this.storage.stat(`files/${page_id}/${file_id}`)
 
 			if (size !== undefined && stats.size != size) {
 				return false
 			}
 
+			if (sha256sum !== undefined && sha256(await this.storage.readFile(`files/${page_id}/${file_id}`)) != sha256sum) {
+				this.error(`Checksum of ${this._workingDirectory}/files/${page_id}/${file_id} does not match`, {page: page_id, file: file_id})
+				return false
+			}
+
 			return true
 		} catch(err) {
 
@@ -1651,7 +1965,32 @@ export class WikiDot {
 		return false
 	}
 
-	private async fetchFileInner(fileMeta: {url: string, file_id: number}, pageName: string, config?: RequestConfig) {
+	private readonly manifestWrites = new Map<string, Promise<void>>()
+
+	public async readFileManifest(pageName: string): Promise<FileManifest> {
+		await this.manifestWrites.get(pageName)
+		return await this.readMeta<FileManifest>(`files/${pageName}/manifest.json`, {page: pageName}) ?? {}
+	}
+
+	private recordFileChecksum(pageName: string, file_id: number, sha256sum: string, size: number) {
+		// downloads of the same page finish concurrently
+		const write = (this.manifestWrites.get(pageName) ?? Promise.resolve()).then(async () => {
+			const manifest = await this.readMeta<FileManifest>(`files/${pageName}/manifest.json`, {page: pageName}) ?? {}
+			manifest[file_id] = {sha256: sha256sum, size: size}
+			await this.storage.writeJson(`files/${pageName}/manifest.json`, manifest)
+		}).catch(err => {
+			this.error(`Unable to write checksum of ${this._workingDirectory}/files/${pageName}/${file_id}: ${err}`, {page: pageName, file: file_id})
+		}).finally(() => {
+			if (this.manifestWrites.get(pageName) === write) {
+				this.manifestWrites.delete(pageName)
+			}
+		})
+
+		this.manifestWrites.set(pageName, write)
+		return write
+	}
+
+	private async fetchFileInner(fileMeta: {url: string, file_id: number, sha256?: string}, pageName: string, config?: RequestConfig) {
 		if (this.client === null) {
 			throw new Error(`This object is in offline mode`)
 		}
@@ -1661,17 +2000,22 @@ export class WikiDot {
 		this.pushPendingFiles(fileMeta.file_id)
 
 		await this.client.get(fileMeta.url, config).then(async buffer => {
-			await promises.mkdir(`${this._workingDirectory}/files/${pageName}`, {recursive: true})
-			await promises.writeFile(`${this._workingDirectory}/files/${pageName}/${fileMeta.file_id}`, buffer)
+			await this.storage.mkdir(`files/${pageName}`)
+			await this.storage.writeFile(`files/${pageName}/${fileMeta.file_id}`, buffer)
+			// ends up in page metadata if it is not written yet, manifest has it anyway
+			fileMeta.sha256 = sha256(buffer)
+			await this.recordFileChecksum(pageName, fileMeta.file_id, fileMeta.sha256, buffer.length)
 			this.removePendingFiles(fileMeta.file_id)
+			this.emit('file', {page: pageName, file_id: fileMeta.file_id, url: fileMeta.url, size: buffer.length})
 		}).catch(err => {
-			this.log(`Unable to fetch ${fileMeta.url} because ${err}`)
+			this.error(`Unable to fetch ${fileMeta.url} because ${err}`, {page: pageName, file: fileMeta.file_id})
 		})
 	}
 
 	public async fetchFilesFor(page_id: number, existing: FileMeta[] = []) {
 		await this.initialize()
 		const metadata = []
+		const manifests = new Map<string, FileManifest>()
 
 		for (const fileMeta of await this.fetchFileMetaListForce(page_id, existing)) {
 			const match = WikiDot.splitFilePathRaw(fileMeta.url)
@@ -1687,7 +2031,17 @@ export class WikiDot {
 				this.downloadingFiles.push(fileMeta.file_id)
 				this.writeToFileMap(fileMeta, pageName, fileName)
 
-				if (await this.fileExists(pageName, fileMeta.file_id, fileMeta.size_bytes)) {
+				let manifest = manifests.get(pageName)
+
+				if (manifest === undefined) {
+					manifest = await this.readFileManifest(pageName)
+					manifests.set(pageName, manifest)
+				}
+
+				// metadata fetched anew has no checksum yet
+				fileMeta.sha256 = fileMeta.sha256 ?? manifest[fileMeta.file_id]?.sha256
+
+				if (await this.fileExists(pageName, fileMeta.file_id, fileMeta.size_bytes, fileMeta.sha256)) {
 					continue
 				}
 
@@ -1726,37 +2080,37 @@ export class WikiDot {
 		const date = rows[6]?.querySelectorAll('td')[1]
 
 		if (name === undefined || name === null) {
-			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`)
+			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`, {file: file_id})
 			return null
 		}
 
 		if (fullURL === undefined || fullURL === null) {
-			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`)
+			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`, {file: file_id})
 			return null
 		}
 
 		if (size === undefined || size === null) {
-			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`)
+			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`, {file: file_id})
 			return null
 		}
 
 		if (mime === undefined || mime === null) {
-			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`)
+			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`, {file: file_id})
 			return null
 		}
 
 		if (contentType === undefined || contentType === null) {
-			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`)
+			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`, {file: file_id})
 			return null
 		}
 
 		if (uploader === undefined || uploader === null) {
-			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`)
+			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`, {file: file_id})
 			return null
 		}
 
 		if (date === undefined || date === null) {
-			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`)
+			this.error(`Encountered invalid HTML layout while fetching file meta of ${file_id}, HTML was: ${json.body}`, {file: file_id})
 			return null
 		}
 
@@ -1784,7 +2138,7 @@ export class WikiDot {
 			try {
 				return await this.fetchFileMeta(file_id)
 			} catch(err) {
-				this.error(`Encountered ${err} when fetching file meta (ID ${file_id}), sleeping for 5 seconds`)
+				this.error(`Encountered ${err} when fetching file meta (ID ${file_id}), sleeping for 5 seconds`, {file: file_id})
 				await sleep(5_000)
 			}
 		}
@@ -1876,366 +2230,120 @@ export class WikiDot {
 		return list2
 	}
 
-	public async workLoop(lock: Lock) {
+	public async workLoop(lock: Lock, options: WorkLoopOptions = {}) {
 		if (this.client === null || this.queue === null) {
 			throw new Error(`This object is in offline mode`)
 		}
 
 		await this.initialize()
 
-		{
-			let mapNeedsRebuild = true
-
-			try {
-				mapNeedsRebuild = (await promises.stat(`${this._workingDirectory}/meta/pages`)).isDirectory()
-			} catch(err) {
-				mapNeedsRebuild = false
-			}
-
-			if (mapNeedsRebuild) {
-				for (const _ in this.pageIdMap.data) {
-					mapNeedsRebuild = false
-					break
-				}
-			}
+		const dryRun = options.dryRun ?? false
+		const pages = (options.only === undefined || options.only == 'pages') && this.content.includes('pages')
+		const forum = (options.only === undefined || options.only == 'forum') && this.content.includes('forum')
+		const files = (options.only === undefined || options.only == 'files') && this.content.includes('files')
 
-			if (mapNeedsRebuild) {
-				this.log(`Page id map is empty, gotta populate it...`)
+		if (options.only !== undefined && !this.content.includes(options.only)) {
+			this.log(`Backing up ${options.only} is disabled for this wiki`)
+		}
 
-				const tasks: any[] = []
+		if (pages) {
+			await this.rebuildPageIdMap()
 
-				for (const name of await promises.readdir(`${this._workingDirectory}/meta/pages/`)) {
-					if (name.endsWith('.json')) {
-						tasks.push(async () => {
-							const metadata: PageMeta = JSON.parse(await promises.readFile(`${this._workingDirectory}/meta/pages/${name}`, {encoding: 'utf-8'}))
+			if (!options.incremental || !(await this.syncRecentChanges(options.maxCheckpointAge ?? WikiDot.defaultCheckpointAge, dryRun))) {
+				// remember where recent changes were before sitemap scan, so next incremental run starts from there
+				const checkpoint = dryRun ? null : await this.fetchNewestChangeStamp()
+				await this.syncSitemap(lock, dryRun)
 
-							if (metadata != null) {
-								this.pageIdMap.data[metadata.page_id] = metadata.name
-								this.pageIdMap.markDirty()
-							} else {
-								this.error(`${this._workingDirectory}/meta/pages/${name} is malformed!`)
-							}
-						})
-					}
+				if (checkpoint !== null) {
+					this.changesCheckpoint.data.stamp = checkpoint
+					this.changesCheckpoint.markDirty()
 				}
-
-				const worker = blockingQueue(tasks)
-				await parallel(worker, 4)
 			}
 		}
 
-		await lock.lock()
-		this.log(`Fetching sitemap`)
-		const sitemapPages: [string, Date | null][] = []
-
-		const fetchSiteMap = async (url: string) => {
-			const sitemap = (await this.client!.get(url)).toString('utf-8')
-			const xml = parse(sitemap)
+		if (dryRun) {
+			this.log(`Dry run, not fetching forums, files and pending revisions`)
+			this.phase('finished')
+			return
+		}
 
-			for (const submap of xml.querySelectorAll('sitemap')) {
-				for (const loc of submap.querySelectorAll('loc')) {
-					const pageMatch = loc.textContent.match(/_page_([0-9]+)\.xml$/)
+		const forums = forum ? await this.syncForums() : []
 
-					if (pageMatch != null) {
-						await fetchSiteMap(loc.textContent)
-					}
-				}
+		if (files) {
+			if (options.only == 'files') {
+				await this.syncMissingFiles()
 			}
 
-			for (const urlset of xml.querySelectorAll('urlset')) {
-				for (const elem of urlset.querySelectorAll('url')) {
-					let loc = elem.querySelector('loc')?.textContent
-					const lastmodElem = elem.querySelector('lastmod')
-					const lastmod = lastmodElem != null ? new Date(lastmodElem.textContent) : null
-
-					if (loc == undefined) {
-						continue
-					}
-
-					if(this.blacklist.includes(loc)) {
-						this.log(`Removing blacklisted page ${loc} from sitemap...`)
-						continue
-					}
-
-					if (loc.startsWith(this.url)) {
-						// domain match
-						loc = loc.substring(this.url.length)
-					} else if (loc.startsWith('http')) {
-						// domain does not match, assume we have custom domain
-						// e.g. scpfoundation.net redirects us to scp-ru.wikidot.com
-						const parsedURL = new URL(loc)
-						loc = parsedURL.pathname.substring(1)
-					}
+			await this.fetchPendingFiles()
+		}
 
-					if (loc == '' || loc == '/') {
-						// loc = 'main'
-						continue
-					}
+		if (pages) {
+			await this.fetchPendingRevisions()
+			await this.compressPages()
+		}
 
-					if (loc.startsWith('/forum/') || loc.startsWith('forum/')) {
-						continue
-					}
+		if (forums.length != 0) {
+			await this.compressForums()
+		}
 
-					if (loc.startsWith('/')) {
-						loc = loc.substring(1)
-					}
+		await this.updateSearchIndex()
+		this.phase('finished')
+	}
 
-					sitemapPages.push([loc, lastmod])
-				}
-			}
-		}
+	/**
+	 * Populates page id map from page metadata on disk, if map is empty
+	 */
+	private async rebuildPageIdMap() {
+		let mapNeedsRebuild = true
 
 		try {
-			await fetchSiteMap(`${this.url}/sitemap.xml`)
-		} finally {
-			lock.release()
+			mapNeedsRebuild = (await this.storage.stat(`meta/pages`)).isDirectory()
+		} catch(err) {
+			mapNeedsRebuild = false
 		}
 
-		this.log(`Counting total ${sitemapPages.length} pages`)
+		if (mapNeedsRebuild) {
+			for (const _ in this.pageIdMap.data) {
+				mapNeedsRebuild = false
+				break
+			}
+		}
 
-		const oldMap = await this.readSiteMap()
+		if (mapNeedsRebuild) {
+			this.log(`Page id map is empty, gotta populate it...`)
 
-		if (oldMap == null) {
-			this.log(`No previous sitemap was found, doing full scan`)
-		} else {
-			this.log(`Previous sitemap contains ${oldMap.size} pages`)
-			this.log(`Searching for deleted pages...`)
+			const tasks: any[] = []
 
-			for (const name of oldMap.keys()) {
-				let hit = false
+			for (const name of await this.storage.readdir(`meta/pages/`)) {
+				if (name.endsWith('.json')) {
+					tasks.push(async () => {
+						const metadata = await this.readMeta<PageMeta>(`meta/pages/${name}`)
 
-				for (const [pageName, _] of sitemapPages) {
-					if (name == pageName) {
-						hit = true
-						break
-					}
+						if (metadata != null) {
+							this.pageIdMap.data[metadata.page_id] = metadata.name
+							this.pageIdMap.markDirty()
+						} else {
+							this.error(`${this._workingDirectory}/meta/pages/${name} is malformed!`)
+						}
+					})
 				}
+			}
 
-				if (!hit) {
-					this.log(`Page ${name} was removed`)
+			const worker = blockingQueue(tasks)
+			await parallel(worker, 4)
+		}
+	}
 
-					const metadata = await this.readPageMetadata(name)
+	/**
+	 * Backs up forum categories, threads and posts
+	 *
+	 * @returns forum categories present on wiki
+	 */
+	private async syncForums() {
+		this.phase('forum')
+		this.log(`Fetching forums list`)
 
-					await this.markPageRemoved(name)
-
-					if (metadata != null) {
-						delete this.pageIdMap.data[metadata.page_id]
-						this.pageIdMap.markDirty()
-					}
-				}
-			}
-		}
-
-		const tasks: any[] = []
-
-		for (const [pageName, pageUpdate] of sitemapPages) {
-			tasks.push(async () => {
-				if (oldMap != null) {
-					const oldStamp = oldMap.get(pageName)
-
-					if (oldStamp === pageUpdate || pageUpdate != null && oldStamp === pageUpdate.getTime()) {
-						if (await this.pageMetadataExists(pageName)) {
-							// consider it fetched, since sitemap is written to disk only when everything got saved
-							return
-						}
-					}
-				}
-
-				let metadata = await this.readPageMetadata(pageName)
-
-				if (
-					metadata == null ||
-					pageUpdate == null || // always check
-					metadata.sitemap_update != pageUpdate.getTime() ||
-					metadata.page_id == undefined ||
-					metadata.version == undefined ||
-					metadata.version < WikiDot.PAGE_METADATA_VERSION
-				) {
-					//this.log(`Need to renew ${pageName} (updated ${pageUpdate == null ? 'always invalid' : pageUpdate} vs ${metadata == null || metadata.sitemap_update == undefined ? 'never' : new Date(metadata.sitemap_update)})`)
-					this.log(`Need to renew ${pageName}`)
-
-					let pageMeta: GenericPageData
-
-					try {
-						pageMeta = await this.fetchGeneric(pageName)
-					} catch(err) {
-						this.log(`Encountered ${err}, postproning page ${pageName} for late fetch`)
-						this.pushPendingPages(pageName)
-						return
-					}
-
-					if (pageMeta.page_id != undefined) {
-						let newMeta: PageMeta
-
-						if (metadata == null || metadata.page_id != -1 && metadata.page_id != pageMeta.page_id) {
-							newMeta = {
-								name: pageName,
-								version: WikiDot.PAGE_METADATA_VERSION,
-								revisions: [],
-								files: [],
-								page_id: pageMeta.page_id,
-								parent: pageMeta.parent,
-							}
-
-							if (metadata != null) {
-								this.log(`Page ${pageName} got replaced`)
-								await this.markPageRemoved(pageName)
-								delete this.pageIdMap.data[metadata.page_id]
-								this.pageIdMap.markDirty()
-							}
-						} else {
-							newMeta = {
-								name: pageName,
-								version: WikiDot.PAGE_METADATA_VERSION,
-								revisions: metadata.revisions,
-								files: metadata.files != undefined ? metadata.files : [],
-								page_id: metadata.page_id,
-								votings: metadata.votings,
-								parent: pageMeta.parent,
-							}
-						}
-
-						if (this.pageIdMap.data[newMeta.page_id] !== newMeta.name) {
-							this.pageIdMap.data[newMeta.page_id] = newMeta.name
-							this.pageIdMap.markDirty()
-						}
-
-						newMeta.rating = pageMeta.rating
-						newMeta.forum_thread = pageMeta.forum_thread
-						newMeta.tags = pageMeta.tags
-						newMeta.title = pageMeta.page_name
-
-						if (pageUpdate != null) {
-							newMeta.sitemap_update = pageUpdate.getTime()
-						}
-
-						for (let i0 = 0; i0 < 3; i0++) {
-							try {
-								newMeta.votings = await this.fetchPageVoters(pageMeta.page_id)
-								break
-							} catch(err) {
-								this.error(`Encountered error fetching ${pageName} voters: ${err}`)
-							}
-						}
-
-						for (let i0 = 0; i0 < 3; i0++) {
-							try {
-								const oldfiles = newMeta.files
-								newMeta.files = await this.fetchFilesFor(pageMeta.page_id, newMeta.files)
-
-								// search for removed files
-								for (const emeta of oldfiles) {
-									let hit = false
-
-									for (const nmeta of newMeta.files) {
-										if (nmeta.file_id == emeta.file_id) {
-											hit = true
-											break
-										}
-									}
-
-									if (!hit) {
-										try {
-											this.log(`File ${emeta.file_id} <${emeta.url}> inside ${pageName} <${pageMeta.page_id}> got removed`)
-											await promises.unlink(`${this._workingDirectory}/files/${pageName}/${emeta.file_id}`)
-										} catch(err) {
-											this.error(String(err))
-										}
-									}
-								}
-
-								break
-							} catch(err) {
-								this.error(`Encountered error fetching ${pageName} files: ${err}`)
-							}
-						}
-
-						for (let i0 = 0; i0 < 3; i0++) {
-							try {
-								newMeta.is_locked = await this.fetchIsPageLocked(pageMeta.page_id)
-								break
-							} catch(err) {
-								this.error(`Encountered error fetching ${pageName} "is locked" status: ${err}`)
-							}
-						}
-
-						const lastRevision = findMostRevision(newMeta.revisions)
-						const changes = lastRevision == null ? await this.fetchPageChangeListAllForce(pageMeta.page_id) : await this.fetchPageChangeListAllUntilForce(pageMeta.page_id, lastRevision)
-						newMeta.revisions.unshift(...changes!)
-						await this.writePageMetadata(pageName, newMeta)
-						metadata = newMeta
-					}
-				}
-
-				if (metadata == null || metadata.page_id == undefined) {
-					this.pushPendingPages(pageName)
-					return
-				}
-
-				const revisionsToFetch: PageRevision[] = []
-				const localRevs = await this.revisionList(pageName)
-
-				for (const key in metadata.revisions) {
-					const rev = metadata.revisions[key]
-
-					if (!localRevs.includes(rev.revision)) {
-						revisionsToFetch.push(rev)
-					}
-				}
-
-				let changes = false
-				flipArray(revisionsToFetch)
-
-				const worker = async () => {
-					while (true) {
-						const rev = revisionsToFetch.pop()
-
-						if (rev == undefined) {
-							break
-						}
-
-						for (let i0 = 0; i0 < 2; i0++) {
-							try {
-								this.log(`Fetching revision ${rev.revision} (${rev.global_revision}) of ${pageName}`)
-								const body = await this.fetchRevision(rev.global_revision)
-								await this.writeRevision(pageName, rev.revision, body)
-								changes = true
-								await this.queue!.workerDelay()
-
-								if (rev.global_revision in this.pendingRevisions.data) {
-									delete this.pendingRevisions.data[rev.global_revision]
-									this.pendingRevisions.markDirty()
-								}
-
-								break
-							} catch(err) {
-								this.error(`Encountered ${err}, postproning revision ${rev.global_revision} of ${pageName} for later fetch`)
-								this.pendingRevisions.data[rev.global_revision] = metadata!.page_id
-								this.pendingRevisions.markDirty()
-							}
-						}
-					}
-				}
-
-				await this.queue!.run(worker, 8)
-
-				this.removePendingPages(pageName)
-				await this.writePageMetadata(pageName, metadata)
-
-				if (changes) {
-					await this.compressRevisions(WikiDot.normalizeName(pageName))
-				}
-			})
-		}
-
-		const worker = this.queue.blockingQueue(tasks)
-		await this.queue.run(worker, 8)
-
-		await this.writeSiteMap(sitemapPages)
-
-		this.log(`Fetching forums list`)
-
-		let forums: ForumCategory[]
+		let forums: ForumCategory[]
 
 		try {
 			forums = await this.fetchForumCategories()
@@ -2245,6 +2353,7 @@ export class WikiDot {
 		}
 
 		for (const forum of forums) {
+			this.throwIfAborted()
 			const localForum = await this.readForumCategory(forum.id)
 
 			if (localForum != null && localForum.last == forum.last && localForum.full_scan && localForum.version === WikiDot.FORUM_CATEGORY_METADATA_VERSION) {
@@ -2285,14 +2394,14 @@ export class WikiDot {
 							shouldFetch = count != thread.postsNum
 
 							if (shouldFetch) {
-								this.error(`Post amount mismatch of ${thread.id} (expected ${thread.postsNum}, got ${count})`)
+								this.error(`Post amount mismatch of ${thread.id} (expected ${thread.postsNum}, got ${count})`, {category: forum.id, thread: thread.id})
 							}
 
 							if (!shouldFetch) {
 								localPostsAndRevisions = await this.readPostsAndRevisionsOfThread(forum.id, thread.id)
 
 								if (localPostsAndRevisions[0].length != count) {
-									this.error(`Fetched post count mismatch of ${thread.id} (expected ${count}, got ${localPostsAndRevisions[0].length})`)
+									this.error(`Fetched post count mismatch of ${thread.id} (expected ${count}, got ${localPostsAndRevisions[0].length})`, {category: forum.id, thread: thread.id})
 									shouldFetch = true
 								}
 							}
@@ -2348,7 +2457,8 @@ export class WikiDot {
 									lastEdit: post.lastEdit,
 									lastEditBy: post.lastEditBy,
 									revisions: oldPost != null ? oldPost.revisions : [],
-									children: []
+									children: [],
+									latest_sha256: oldPost?.latest_sha256
 								}
 
 								const existingRevisions = knownPostsRevs.get(post.id) ?? []
@@ -2369,7 +2479,7 @@ export class WikiDot {
 											try {
 												this.log(`Fetching revision ${revision.id} of post ${post.id}`)
 												const revContent = await this.fetchPostRevision(revision.id)
-												await this.writePostRevision(forum.id, thread.id, post.id, revision.id, revContent.content)
+												const hash = await this.writePostRevision(forum.id, thread.id, post.id, revision.id, revContent.content)
 												fetchOnce = true
 
 												const find = findPostRevision(localPost.revisions, revision.id)
@@ -2383,7 +2493,8 @@ export class WikiDot {
 													title: revContent.title,
 													author: revision.author,
 													id: revision.id,
-													stamp: revision.stamp
+													stamp: revision.stamp,
+													sha256: hash
 												})
 											} catch(err) {
 												if (err instanceof HTTPError && err.response === 500) {
@@ -2396,7 +2507,7 @@ export class WikiDot {
 									}
 
 									if (revWorker.length != 0 || !existingRevisions.includes('latest')) {
-										await this.writePostRevision(forum.id, thread.id, post.id, 'latest', post.content)
+										localPost.latest_sha256 = await this.writePostRevision(forum.id, thread.id, post.id, 'latest', post.content)
 										fetchOnce = true
 									}
 
@@ -2404,7 +2515,7 @@ export class WikiDot {
 										await Promise.all(revWorker)
 									}
 								} else if (!existingRevisions.includes('latest')) {
-									await this.writePostRevision(forum.id, thread.id, post.id, 'latest', post.content)
+									localPost.latest_sha256 = await this.writePostRevision(forum.id, thread.id, post.id, 'latest', post.content)
 									fetchOnce = true
 								}
 
@@ -2431,7 +2542,7 @@ export class WikiDot {
 											// await this.writeForumPost(post.id, localPost)
 											break
 										} catch(err) {
-											this.error(`Encountered ${err}, sleeping for 5 seconds`)
+											this.error(`Encountered ${err}, sleeping for 5 seconds`, {category: forum.id, thread: thread.id, post: post.id})
 											await sleep(5_000)
 										}
 									}
@@ -2440,6 +2551,7 @@ export class WikiDot {
 
 							await Promise.all(workers)
 							await this.writeForumThread(forum.id, thread.id, newMeta)
+							this.emit('thread', {category: forum.id, thread: newMeta})
 
 							if (fetchOnce) {
 								await this.compressForumThread(forum.id, thread.id)
@@ -2449,7 +2561,7 @@ export class WikiDot {
 				}
 
 				const doWork = async () => {
-					while (true) {
+					while (!this.isAborted) {
 						const task = workers.pop()
 
 						if (task == undefined) {
@@ -2473,7 +2585,8 @@ export class WikiDot {
 					}
 				}
 
-				await this.queue.run(doWork, 3)
+				await this.queue!.run(doWork, 3)
+				this.throwIfAborted()
 
 				if (threads.length == 0 || !updated && full_scan) {
 					await this.writeForumCategory({
@@ -2507,13 +2620,72 @@ export class WikiDot {
 			}
 		}
 
+		this.throwIfAborted()
 		this.log(`Fetched all forums!`)
 
 		// if we didn't finish full scan then we would have to do relatively full scan of all forum categories
 		// but if we managed to reach the end, then we gonna have fast index!
 		//await this.writeForumMeta(forums)
 
+		return forums
+	}
+
+	/**
+	 * Downloads files listed in page metadata which are missing on disk
+	 */
+	private async syncMissingFiles() {
+		let listing: string[]
+
+		try {
+			listing = await this.storage.readdir(`meta/pages/`)
+		} catch(err) {
+			return
+		}
+
+		this.phase('pending_files')
+		this.log(`Searching for missing files`)
+
+		for (const name of listing) {
+			if (!name.endsWith('.json')) {
+				continue
+			}
+
+			this.throwIfAborted()
+			const metadata = await this.readPageMetadata(name.substring(0, name.length - 5))
+
+			if (metadata == null || metadata.files == undefined) {
+				continue
+			}
+
+			for (const fileMeta of metadata.files) {
+				const match = WikiDot.splitFilePathRaw(fileMeta.url)
+
+				if (match == null) {
+					continue
+				}
+
+				const [pageName, fileName] = match
+				this.writeToFileMap(fileMeta, pageName, fileName)
+
+				if (await this.fileExists(pageName, fileMeta.file_id, isNaN(fileMeta.size_bytes) ? undefined : fileMeta.size_bytes)) {
+					continue
+				}
+
+				await this.fetchFileInner(fileMeta, pageName, {
+					headers: {
+						'Referer': this.url
+					}
+				})
+			}
+		}
+	}
+
+	/**
+	 * Downloads files which failed to download previously
+	 */
+	private async fetchPendingFiles() {
 		if (this.pendingFiles.data.length != 0) {
+			this.phase('pending_files')
 			this.log(`Fetching pending files`)
 
 			for (let i = this.pendingFiles.data.length - 1; i >= 0; i--) {
@@ -2545,7 +2717,7 @@ export class WikiDot {
 				if (match != null) {
 					const [pageName, fileName, recombined] = match
 
-					if (await this.fileExists(pageName, id)) {
+					if (await this.fileExists(pageName, id, undefined, (await this.readFileManifest(pageName))[id]?.sha256)) {
 						continue
 					}
 
@@ -2559,134 +2731,164 @@ export class WikiDot {
 				}
 			}
 		}
+	}
 
-		{
-			const copy: [number, number][] = []
-
-			for (const global_revision in this.pendingRevisions.data) {
-				const page_id = this.pendingRevisions.data[global_revision]
-				copy.push([parseInt(global_revision), page_id])
-			}
+	/**
+	 * Fetches page revisions which failed to fetch previously
+	 */
+	private async fetchPendingRevisions() {
+		const copy: [number, number][] = []
 
-			if (copy.length != 0) {
-				this.log(`Fetching pending revisions`)
+		for (const global_revision in this.pendingRevisions.data) {
+			const page_id = this.pendingRevisions.data[global_revision]
+			copy.push([parseInt(global_revision), page_id])
+		}
 
-				const mapping = new Map<number, PageMeta>()
+		if (copy.length != 0) {
+			this.phase('pending_revisions')
+			this.log(`Fetching pending revisions`)
 
-				for (const page_id in this.pageIdMap.data) {
-					const num = parseInt(page_id)
-					let hit = true
+			const mapping = new Map<number, PageMeta>()
 
-					for (const [_, page_id] of copy) {
-						if (num == page_id) {
-							hit = false
-							const page_name = this.pageIdMap.data[page_id]
-							const metadata = await this.readPageMetadata(page_name)
+			for (const page_id in this.pageIdMap.data) {
+				const num = parseInt(page_id)
+				let hit = true
 
-							if (metadata != null) {
-								if (metadata.page_id != num) {
-									this.error(`yo dude what the fuck`)
-									this.error(`Page map match ID ${num} against ${page_name}, but ${page_name} in pages/ has ID of ${metadata.page_id}`)
-									this.pageIdMap.data[metadata.page_id] = metadata.name
-									this.pageIdMap.markDirty()
-									break
-								}
+				for (const [_, page_id] of copy) {
+					if (num == page_id) {
+						hit = false
+						const page_name = this.pageIdMap.data[page_id]
+						const metadata = await this.readPageMetadata(page_name)
 
-								mapping.set(metadata.page_id, metadata)
-								hit = true
+						if (metadata != null) {
+							if (metadata.page_id != num) {
+								this.error(`yo dude what the fuck`)
+								this.error(`Page map match ID ${num} against ${page_name}, but ${page_name} in pages/ has ID of ${metadata.page_id}`)
+								this.pageIdMap.data[metadata.page_id] = metadata.name
+								this.pageIdMap.markDirty()
+								break
 							}
 
-							break
+							mapping.set(metadata.page_id, metadata)
+							hit = true
 						}
-					}
 
-					if (!hit) {
-						this.error(`Unable to find page metadata for ${page_id}!!!`)
+						break
 					}
 				}
 
-				const tasks: any[] = []
+				if (!hit) {
+					this.error(`Unable to find page metadata for ${page_id}!!!`)
+				}
+			}
+
+			const tasks: any[] = []
+			// pages which got checksums of fetched revisions
+			const touched = new Set<PageMeta>()
 
-				for (const [global_revision, page_id] of copy) {
-					tasks.push(async () => {
-						const pageMeta = mapping.get(page_id)
+			for (const [global_revision, page_id] of copy) {
+				tasks.push(async () => {
+					const pageMeta = mapping.get(page_id)
 
-						if (pageMeta == undefined) {
-							this.error(`Unknown page with id ${page_id} when resolving pending revision! Considering revision ${global_revision} unresolvable.`)
-							delete this.pendingRevisions.data[global_revision]
-							this.pendingRevisions.markDirty()
-							return
-						}
+					if (pageMeta == undefined) {
+						this.error(`Unknown page with id ${page_id} when resolving pending revision! Considering revision ${global_revision} unresolvable.`, {global_revision: global_revision})
+						delete this.pendingRevisions.data[global_revision]
+						this.pendingRevisions.markDirty()
+						return
+					}
 
-						let rev: PageRevision | undefined = undefined
+					let rev: PageRevision | undefined = undefined
 
-						for (const prev of pageMeta.revisions) {
-							if (prev.global_revision == global_revision) {
-								rev = prev
-								break
-							}
+					for (const prev of pageMeta.revisions) {
+						if (prev.global_revision == global_revision) {
+							rev = prev
+							break
 						}
+					}
 
-						if (rev == undefined) {
-							this.error(`Unknown revision with id ${global_revision} inside ${pageMeta.name} (${[pageMeta.page_id]}) when resolving pending revision! Considering revision unresolvable.`)
-							delete this.pendingRevisions.data[global_revision]
-							this.pendingRevisions.markDirty()
-							return
-						}
+					if (rev == undefined) {
+						this.error(`Unknown revision with id ${global_revision} inside ${pageMeta.name} (${[pageMeta.page_id]}) when resolving pending revision! Considering revision unresolvable.`, {page: pageMeta.name, global_revision: global_revision})
+						delete this.pendingRevisions.data[global_revision]
+						this.pendingRevisions.markDirty()
+						return
+					}
 
-						try {
-							this.log(`Fetching revision ${rev.revision} (${rev.global_revision}) of ${pageMeta.name}`)
-							const body = await this.fetchRevision(rev.global_revision)
-							await this.writeRevision(pageMeta.name, rev.revision, body)
+					try {
+						this.log(`Fetching revision ${rev.revision} (${rev.global_revision}) of ${pageMeta.name}`)
+						const body = await this.fetchRevision(rev.global_revision)
+						rev.sha256 = await this.writeRevision(pageMeta.name, rev.revision, body)
+						touched.add(pageMeta)
+						this.emit('revision', {page: pageMeta.name, revision: rev, body: body})
+						delete this.pendingRevisions.data[rev.global_revision]
+						this.pendingRevisions.markDirty()
+					} catch(err) {
+						if (pageMeta.name.startsWith('nav:') || pageMeta.name.startsWith('tech:')) {
+							this.error(`Encountered ${err}, giving up on ${rev.global_revision} of ${pageMeta.name}`, {page: pageMeta.name, revision: rev.revision, global_revision: rev.global_revision})
 							delete this.pendingRevisions.data[rev.global_revision]
 							this.pendingRevisions.markDirty()
-						} catch(err) {
-							if (pageMeta.name.startsWith('nav:') || pageMeta.name.startsWith('tech:')) {
-								this.error(`Encountered ${err}, giving up on ${rev.global_revision} of ${pageMeta.name}`)
-								delete this.pendingRevisions.data[rev.global_revision]
-								this.pendingRevisions.markDirty()
-							} else {
-								this.error(`Encountered ${err}, postproning revision ${rev.global_revision} of ${pageMeta.name} for later fetch (AGAIN)`)
-							}
+						} else {
+							this.error(`Encountered ${err}, postproning revision ${rev.global_revision} of ${pageMeta.name} for later fetch (AGAIN)`, {page: pageMeta.name, revision: rev.revision, global_revision: rev.global_revision})
 						}
-					})
-				}
+					}
+				})
+			}
 
-				const worker = blockingQueue(tasks)
-				await this.queue.run(worker, 6)
+			const worker = blockingQueue(tasks)
 
-				this.log(`Fetched all pending revisions!`)
+			try {
+				await this.queue!.run(worker, 6)
+			} finally {
+				for (const pageMeta of touched) {
+					await this.writePageMetadata(pageMeta.name, pageMeta)
+				}
 			}
+
+			this.throwIfAborted()
+			this.log(`Fetched all pending revisions!`)
 		}
+	}
 
+	/**
+	 * Puts loose revision files into page archives
+	 */
+	private async compressPages() {
+		this.phase('compress')
 		this.log(`Compressing page revisions`)
 
-		for (const name of await promises.readdir(`${this._workingDirectory}/pages/`)) {
+		for (const name of await this.storage.readdir(`pages/`)) {
 			// hidden/system files start with dot
 			// shortcut with .7z check to avoid excessive filesystem load
-			if (!name.startsWith('.') && !name.endsWith('.7z') && (await promises.stat(`${this._workingDirectory}/pages/${name}`)).isDirectory()) {
+			// loose revisions left by interrupted run get compressed by next one
+			this.throwIfAborted()
+
+			if (!name.startsWith('.') && !name.endsWith('.7z') && (await this.storage.stat(`pages/${name}`)).isDirectory()) {
 				await this.compressRevisions(name)
 			}
 		}
+	}
 
-		if (forums.length != 0) {
-			this.log(`Compressing forum threads`)
+	/**
+	 * Puts loose forum post files into thread archives
+	 */
+	private async compressForums() {
+		this.log(`Compressing forum threads`)
 
-			let isdir = false
+		let isdir = false
 
-			try {
-				isdir = (await promises.stat(`${this._workingDirectory}/forum/`)).isDirectory()
-			} catch(err) {
+		try {
+			isdir = (await this.storage.stat(`forum/`)).isDirectory()
+		} catch(err) {
 
-			}
+		}
 
-			if (isdir) {
-				for (const category of await promises.readdir(`${this._workingDirectory}/forum/`)) {
-					if (!category.startsWith('.') && (await promises.stat(`${this._workingDirectory}/forum/${category}`)).isDirectory()) {
-						for (const thread of await promises.readdir(`${this._workingDirectory}/forum/${category}`)) {
-							if (!thread.startsWith('.') && !thread.endsWith('.7z') && (await promises.stat(`${this._workingDirectory}/forum/${category}/${thread}`)).isDirectory()) {
-								await this.compressForumThread(category, thread)
-							}
+		if (isdir) {
+			for (const category of await this.storage.readdir(`forum/`)) {
+				if (!category.startsWith('.') && (await this.storage.stat(`forum/${category}`)).isDirectory()) {
+					for (const thread of await this.storage.readdir(`forum/${category}`)) {
+						this.throwIfAborted()
+
+						if (!thread.startsWith('.') && !thread.endsWith('.7z') && (await this.storage.stat(`forum/${category}/${thread}`)).isDirectory()) {
+							await this.compressForumThread(category, thread)
 						}
 					}
 				}
@@ -2694,102 +2896,843 @@ export class WikiDot {
 		}
 	}
 
-	// local I/O
-	public async readForumCategory(category: number) {
+
+	/**
+	 * Returns stamp of the most recent change on wiki, or null if it can't be determined
+	 */
+	private async fetchNewestChangeStamp() {
 		try {
-			const read = await promises.readFile(`${this._workingDirectory}/meta/forum/category/${category}.json`, {encoding: 'utf-8'})
-			return JSON.parse(read) as LocalForumCategory
+			for (const change of await this.fetchChanges(1, 10)) {
+				if (change.stamp !== undefined) {
+					return change.stamp
+				}
+			}
 		} catch(err) {
-			return null
+			this.error(`Unable to fetch recent changes: ${err}`)
 		}
+
+		return null
 	}
 
-	public async readForumCategories() {
-		try {
-			const list = await promises.readdir(`${this._workingDirectory}/meta/forum/category/`)
-			const build: {[key: string]: LocalForumCategory} = {}
+	/**
+	 * Backs up pages listed in recent changes since last checkpoint
+	 *
+	 * @returns false if checkpoint is missing or too old, and sitemap has to be scanned instead
+	 */
+	private async syncRecentChanges(maxAge: number, dryRun = false) {
+		const checkpoint = this.changesCheckpoint.data.stamp
 
-			for (const filename of list) {
-				if (filename.match(/^[0-9]+\.json$/)) {
-					const read = await promises.readFile(`${this._workingDirectory}/meta/forum/category/${filename}`, {encoding: 'utf-8'})
-					const cat = JSON.parse(read) as LocalForumCategory
-					build[cat.id] = cat
-				}
-			}
+		if (checkpoint === undefined) {
+			this.log(`No recent changes checkpoint present, doing sitemap scan`)
+			return false
+		}
 
-			return build
-		} catch(err) {
-			return {}
+		if (Date.now() - checkpoint * 1000 > maxAge) {
+			this.log(`Recent changes checkpoint is too old (${new Date(checkpoint * 1000)}), doing sitemap scan`)
+			return false
 		}
-	}
 
-	public async readForumThreadList(id: number) {
-		try {
-			const list = await promises.readdir(`${this._workingDirectory}/meta/forum/${id}/`)
-			const build = []
+		this.phase('sitemap')
+		this.log(`Fetching recent changes since ${new Date(checkpoint * 1000)}`)
 
-			for (const filename of list) {
-				if (filename.match(/^[0-9]+\.json$/)) {
-					build.push(parseInt(filename.substring(0, filename.length - 5)))
+		const pages: string[] = []
+		let newest = checkpoint
+		let reached = false
+
+		for (let page = 1; !reached; page++) {
+			const changes = await this.fetchChangesForce(page)
+
+			if (changes.length == 0) {
+				break
+			}
+
+			for (const change of changes) {
+				if (change.stamp === undefined) {
+					continue
+				}
+
+				if (change.stamp < checkpoint) {
+					reached = true
+					break
 				}
+
+				newest = Math.max(newest, change.stamp)
+
+				if (this.pagePolicy(change.name) == 'skip') {
+					continue
+				}
+
+				pushToSet(pages, change.name)
 			}
+		}
 
-			return build
-		} catch(err) {
-			return []
+		if (!reached) {
+			this.log(`Recent changes do not reach back to checkpoint, doing sitemap scan`)
+			return false
+		}
+
+		this.log(`${pages.length} pages were changed since last checkpoint`)
+		this.emit('sitemap', {pages: pages.length})
+		this.phase('pages')
+
+		const failed = pages.length != 0 ? await this.backupPages(pages, dryRun) : []
+
+		if (dryRun) {
+			return true
+		}
+
+		if (failed.length == 0) {
+			this.changesCheckpoint.data.stamp = newest
+			this.changesCheckpoint.markDirty()
+		} else {
+			this.error(`Not moving recent changes checkpoint, since ${failed.length} pages failed to back up`)
+		}
+
+		return true
+	}
+
+	/**
+	 * Fetches sitemap, removes pages which are gone from it and backs up pages which got updated
+	 */
+	private async syncSitemap(lock: Lock, dryRun = false) {
+		this.phase('sitemap')
+		let sitemapPages: [string, Date | null][] = []
+		// kept on disk as they are, page rules do not remove already stored pages
+		let excluded = new Set<string>()
+
+		const fetchSiteMap = async (url: string) => {
+			const sitemap = (await this.client!.get(url)).toString('utf-8')
+			const xml = parse(sitemap)
+
+			for (const submap of xml.querySelectorAll('sitemap')) {
+				for (const loc of submap.querySelectorAll('loc')) {
+					const pageMatch = loc.textContent.match(/_page_([0-9]+)\.xml$/)
+
+					if (pageMatch != null) {
+						await fetchSiteMap(loc.textContent)
+					}
+				}
+			}
+
+			for (const urlset of xml.querySelectorAll('urlset')) {
+				for (const elem of urlset.querySelectorAll('url')) {
+					let loc = elem.querySelector('loc')?.textContent
+					const lastmodElem = elem.querySelector('lastmod')
+					const lastmod = lastmodElem != null ? new Date(lastmodElem.textContent) : null
+
+					if (loc == undefined) {
+						continue
+					}
+
+					if(this.blacklist.includes(loc)) {
+						this.log(`Removing blacklisted page ${loc} from sitemap...`)
+						continue
+					}
+
+					if (loc.startsWith(this.url)) {
+						// domain match
+						loc = loc.substring(this.url.length)
+					} else if (loc.startsWith('http')) {
+						// domain does not match, assume we have custom domain
+						// e.g. scpfoundation.net redirects us to scp-ru.wikidot.com
+						const parsedURL = new URL(loc)
+						loc = parsedURL.pathname.substring(1)
+					}
+
+					if (loc == '' || loc == '/') {
+						// loc = 'main'
+						continue
+					}
+
+					if (loc.startsWith('/forum/') || loc.startsWith('forum/')) {
+						continue
+					}
+
+					if (loc.startsWith('/')) {
+						loc = loc.substring(1)
+					}
+
+					if (this.rules.policyOf(loc) == 'skip') {
+						excluded.add(loc)
+						continue
+					}
+
+					sitemapPages.push([loc, lastmod])
+				}
+			}
+		}
+
+		const journal = this.journal.data
+
+		if (!dryRun && journal.sitemap !== undefined && journal.started !== undefined && Date.now() - journal.started < WikiDot.journalMaxAge) {
+			this.log(`Resuming sitemap scan interrupted at ${new Date(journal.started).toISOString()}, ${journal.done?.length ?? 0} pages are already done`)
+			sitemapPages = journal.sitemap.map(([name, stamp]) => [name, stamp === null ? null : new Date(stamp)])
+			excluded = new Set(journal.excluded ?? [])
+		} else {
+			await lock.lock()
+			this.log(`Fetching sitemap`)
+
+			try {
+				await fetchSiteMap(`${this.url}/sitemap.xml`)
+			} finally {
+				lock.release()
+			}
+
+			if (excluded.size != 0) {
+				this.log(`${excluded.size} pages are excluded from sitemap by page rules`)
+			}
+
+			if (!dryRun) {
+				this.journal.data = {
+					started: Date.now(),
+					sitemap: sitemapPages.map(([name, stamp]) => [name, stamp === null ? null : stamp.getTime()]),
+					done: [],
+					excluded: [...excluded],
+				}
+
+				this.journal.markDirty()
+			}
+		}
+
+		this.log(`Counting total ${sitemapPages.length} pages`)
+		this.emit('sitemap', {pages: sitemapPages.length})
+		this.phase('pages')
+
+		const oldMap = await this.readSiteMap()
+
+		if (oldMap == null) {
+			this.log(`No previous sitemap was found, doing full scan`)
+		} else {
+			this.log(`Previous sitemap contains ${oldMap.size} pages`)
+			this.log(`Searching for deleted pages...`)
+
+			for (const name of oldMap.keys()) {
+				let hit = false
+
+				for (const [pageName, _] of sitemapPages) {
+					if (name == pageName) {
+						hit = true
+						break
+					}
+				}
+
+				if (!hit && !excluded.has(name)) {
+					if (dryRun) {
+						this.log(`Page ${name} would be removed`)
+						continue
+					}
+
+					this.log(`Page ${name} was removed`)
+
+					const metadata = await this.readPageMetadata(name)
+
+					await this.markPageRemoved(name)
+
+					if (metadata != null) {
+						delete this.pageIdMap.data[metadata.page_id]
+						this.pageIdMap.markDirty()
+					}
+				}
+			}
+		}
+
+		const tasks: any[] = []
+		const done = new Set(this.journal.data.done ?? [])
+
+		for (const [pageName, pageUpdate] of sitemapPages) {
+			if (done.has(pageName)) {
+				continue
+			}
+
+			tasks.push(async () => {
+				if (oldMap != null) {
+					const oldStamp = oldMap.get(pageName)
+
+					if (oldStamp === pageUpdate || pageUpdate != null && oldStamp === pageUpdate.getTime()) {
+						if (await this.pageMetadataExists(pageName)) {
+							// consider it fetched, since sitemap is written to disk only when everything got saved
+							return
+						}
+					}
+				}
+
+				if (await this.backupPage(pageName, pageUpdate, dryRun) && !dryRun) {
+					this.journal.data.done?.push(pageName)
+					this.journal.markDirty()
+				}
+			})
+		}
+
+		const worker = this.queue!.blockingQueue(tasks)
+		await this.queue!.run(worker, 8)
+
+		// sitemap is written only when every page got saved,
+		// until then journal allows to resume the scan
+		this.throwIfAborted()
+
+		if (!dryRun) {
+			// excluded pages which are already stored stay in sitemap with their old stamps
+			const kept: [string, Date | null][] = []
+
+			for (const name of excluded) {
+				const stamp = oldMap?.get(name)
+
+				if (stamp !== undefined) {
+					kept.push([name, stamp === null ? null : new Date(stamp)])
+				}
+			}
+
+			await this.writeSiteMap([...sitemapPages, ...kept])
+			this.journal.data = {}
+			this.journal.markDirty()
+		}
+	}
+
+	/**
+	 * Returns how page should be backed up according to blacklist and page rules
+	 */
+	public pagePolicy(pageName: string): PagePolicy {
+		if (this.blacklist.includes(`${this.url}/${pageName}`)) {
+			return 'skip'
+		}
+
+		return this.rules.policyOf(pageName)
+	}
+
+	/**
+	 * Returns revisions of page which should be stored on disk according to its policy
+	 */
+	private expectedRevisions(pageName: string, metadata: PageMeta): PageRevision[] {
+		switch (this.pagePolicy(pageName)) {
+			// pages excluded by rules are kept as they were stored, nothing more is fetched for them
+			case 'skip':
+			case 'metadata':
+				return []
+
+			case 'latest': {
+				const latest = metadata.revisions.find(rev => rev.revision == findMostRevision(metadata.revisions))
+				return latest !== undefined ? [latest] : []
+			}
+
+			default:
+				return metadata.revisions
+		}
+	}
+
+	/**
+	 * Backs up only specified pages, running the same pipeline workLoop runs for each sitemap entry
+	 *
+	 * @returns names of pages which could not be backed up
+	 */
+	public async backupPages(pages: string[], dryRun = false) {
+		if (this.client === null || this.queue === null) {
+			throw new Error(`This object is in offline mode`)
+		}
+
+		await this.initialize()
+
+		const succeeded: string[] = []
+		const failed: string[] = []
+		const tasks: any[] = []
+
+		for (let pageName of pages) {
+			if (pageName.startsWith(this.url)) {
+				pageName = pageName.substring(this.url.length)
+			}
+
+			if (pageName.startsWith('/')) {
+				pageName = pageName.substring(1)
+			}
+
+			tasks.push(async () => {
+				this.log(`Backing up ${pageName}`)
+
+				if (await this.backupPage(pageName, null, dryRun)) {
+					succeeded.push(pageName)
+				} else {
+					this.error(`Unable to back up ${pageName}`, {page: pageName})
+					failed.push(pageName)
+				}
+			})
+		}
+
+		const worker = this.queue.blockingQueue(tasks)
+		await this.queue.run(worker, 8)
+		this.throwIfAborted()
+
+		if (succeeded.length != 0 && !dryRun) {
+			// we don't know sitemap's last modification time of these pages,
+			// so they are stored as null, which makes next workLoop check them again
+			const sitemap = await this.readSiteMap() ?? new Map<string, number | null>()
+			const rebuild: [string, Date | null][] = []
+
+			for (const name of succeeded) {
+				sitemap.set(name, null)
+			}
+
+			for (const [name, stamp] of sitemap) {
+				rebuild.push([name, stamp !== null ? new Date(stamp) : null])
+			}
+
+			await this.writeSiteMap(rebuild)
+		}
+
+		return failed
+	}
+
+	/**
+	 * Renews metadata, votes, files and revisions of single page and compresses fetched revisions
+	 *
+	 * @param pageUpdate when page was last updated according to sitemap, null forces renewal
+	 * @param dryRun only log what would be fetched
+	 * @returns whether page got backed up, pages which failed are pushed to pending list
+	 */
+	private async backupPage(pageName: string, pageUpdate: Date | null, dryRun = false): Promise<boolean> {
+		let metadata = await this.readPageMetadata(pageName)
+
+		if (
+			metadata == null ||
+			pageUpdate == null || // always check
+			metadata.sitemap_update != pageUpdate.getTime() ||
+			metadata.page_id == undefined ||
+			metadata.version == undefined ||
+			metadata.version < WikiDot.PAGE_METADATA_VERSION
+		) {
+			if (dryRun) {
+				this.log(`Would renew ${pageName}`)
+				return true
+			}
+
+			//this.log(`Need to renew ${pageName} (updated ${pageUpdate == null ? 'always invalid' : pageUpdate} vs ${metadata == null || metadata.sitemap_update == undefined ? 'never' : new Date(metadata.sitemap_update)})`)
+			this.log(`Need to renew ${pageName}`)
+
+			let pageMeta: GenericPageData
+
+			try {
+				pageMeta = await this.fetchGeneric(pageName)
+			} catch(err) {
+				this.log(`Encountered ${err}, postproning page ${pageName} for late fetch`)
+				this.pushPendingPages(pageName)
+				return false
+			}
+
+			if (pageMeta.page_id != undefined) {
+				let newMeta: PageMeta
+
+				if (metadata == null || metadata.page_id != -1 && metadata.page_id != pageMeta.page_id) {
+					newMeta = {
+						name: pageName,
+						version: WikiDot.PAGE_METADATA_VERSION,
+						revisions: [],
+						files: [],
+						page_id: pageMeta.page_id,
+						parent: pageMeta.parent,
+					}
+
+					if (metadata != null) {
+						this.log(`Page ${pageName} got replaced`)
+						await this.markPageRemoved(pageName, true)
+						delete this.pageIdMap.data[metadata.page_id]
+						this.pageIdMap.markDirty()
+					}
+				} else {
+					newMeta = {
+						name: pageName,
+						version: WikiDot.PAGE_METADATA_VERSION,
+						revisions: metadata.revisions,
+						files: metadata.files != undefined ? metadata.files : [],
+						page_id: metadata.page_id,
+						votings: metadata.votings,
+						parent: pageMeta.parent,
+					}
+				}
+
+				if (this.pageIdMap.data[newMeta.page_id] !== newMeta.name) {
+					this.pageIdMap.data[newMeta.page_id] = newMeta.name
+					this.pageIdMap.markDirty()
+				}
+
+				newMeta.rating = pageMeta.rating
+				newMeta.forum_thread = pageMeta.forum_thread
+				newMeta.tags = pageMeta.tags
+				newMeta.title = pageMeta.page_name
+
+				if (pageUpdate != null) {
+					newMeta.sitemap_update = pageUpdate.getTime()
+				}
+
+				for (let i0 = 0; i0 < 3; i0++) {
+					try {
+						newMeta.votings = await this.fetchPageVoters(pageMeta.page_id)
+						break
+					} catch(err) {
+						this.error(`Encountered error fetching ${pageName} voters: ${err}`, {page: pageName})
+					}
+				}
+
+				if (this.content.includes('files')) {
+					for (let i0 = 0; i0 < 3; i0++) {
+						try {
+							const oldfiles = newMeta.files
+							newMeta.files = await this.fetchFilesFor(pageMeta.page_id, newMeta.files)
+
+							// search for removed files
+							for (const emeta of oldfiles) {
+								let hit = false
+
+								for (const nmeta of newMeta.files) {
+									if (nmeta.file_id == emeta.file_id) {
+										hit = true
+										break
+									}
+								}
+
+								if (!hit) {
+									try {
+										this.log(`File ${emeta.file_id} <${emeta.url}> inside ${pageName} <${pageMeta.page_id}> got removed`)
+
+										if (this.tombstones) {
+											await this.graveyard.bury('file', pageName, WikiDot.normalizeName(pageName), [`files/${pageName}/${emeta.file_id}`], emeta)
+										} else {
+											await this.storage.unlink(`files/${pageName}/${emeta.file_id}`)
+										}
+									} catch(err) {
+										this.error(String(err), {page: pageName, file: emeta.file_id})
+									}
+								}
+							}
+
+							break
+						} catch(err) {
+							this.error(`Encountered error fetching ${pageName} files: ${err}`, {page: pageName})
+						}
+					}
+				}
+
+				for (let i0 = 0; i0 < 3; i0++) {
+					try {
+						newMeta.is_locked = await this.fetchIsPageLocked(pageMeta.page_id)
+						break
+					} catch(err) {
+						this.error(`Encountered error fetching ${pageName} "is locked" status: ${err}`, {page: pageName})
+					}
+				}
+
+				const lastRevision = findMostRevision(newMeta.revisions)
+				const changes = lastRevision == null ? await this.fetchPageChangeListAllForce(pageMeta.page_id) : await this.fetchPageChangeListAllUntilForce(pageMeta.page_id, lastRevision)
+				newMeta.revisions.unshift(...changes!)
+				await this.recordPageHistory(pageName, metadata, newMeta)
+				await this.writePageMetadata(pageName, newMeta)
+				this.emit('page', {page: pageName, meta: newMeta})
+				metadata = newMeta
+			}
+		}
+
+		if (metadata == null || metadata.page_id == undefined) {
+			this.pushPendingPages(pageName)
+			return false
+		}
+
+		const revisionsToFetch: PageRevision[] = []
+		const localRevs = await this.revisionList(pageName)
+
+		for (const rev of this.expectedRevisions(pageName, metadata)) {
+			if (!localRevs.includes(rev.revision)) {
+				revisionsToFetch.push(rev)
+			}
+		}
+
+		if (dryRun) {
+			if (revisionsToFetch.length != 0) {
+				this.log(`Would fetch ${revisionsToFetch.length} revisions of ${pageName}`)
+			}
+
+			return true
+		}
+
+		let changes = false
+		flipArray(revisionsToFetch)
+
+		const worker = async () => {
+			while (true) {
+				const rev = revisionsToFetch.pop()
+
+				if (rev == undefined) {
+					break
+				}
+
+				for (let i0 = 0; i0 < 2; i0++) {
+					try {
+						this.log(`Fetching revision ${rev.revision} (${rev.global_revision}) of ${pageName}`)
+						const body = await this.fetchRevision(rev.global_revision)
+						rev.sha256 = await this.writeRevision(pageName, rev.revision, body)
+						this.emit('revision', {page: pageName, revision: rev, body: body})
+						changes = true
+						await this.queue!.workerDelay()
+
+						if (rev.global_revision in this.pendingRevisions.data) {
+							delete this.pendingRevisions.data[rev.global_revision]
+							this.pendingRevisions.markDirty()
+						}
+
+						break
+					} catch(err) {
+						this.error(`Encountered ${err}, postproning revision ${rev.global_revision} of ${pageName} for later fetch`, {page: pageName, revision: rev.revision, global_revision: rev.global_revision})
+						this.pendingRevisions.data[rev.global_revision] = metadata!.page_id
+						this.pendingRevisions.markDirty()
+					}
+				}
+			}
+		}
+
+		await this.queue!.run(worker, 8)
+
+		this.removePendingPages(pageName)
+		await this.writePageMetadata(pageName, metadata)
+
+		if (changes) {
+			await this.compressRevisions(WikiDot.normalizeName(pageName))
+		}
+
+		return true
+	}
+
+	// local I/O
+	public async readForumCategory(category: number) {
+		return await this.readMeta<LocalForumCategory>(`meta/forum/category/${category}.json`, {category: category})
+	}
+
+	public async readForumCategories() {
+		try {
+			const list = await this.storage.readdir(`meta/forum/category/`)
+			const build: {[key: string]: LocalForumCategory} = {}
+
+			for (const filename of list) {
+				if (filename.match(/^[0-9]+\.json$/)) {
+					const cat = await this.readMeta<LocalForumCategory>(`meta/forum/category/${filename}`)
+
+					if (cat !== null) {
+						build[cat.id] = cat
+					}
+				}
+			}
+
+			return build
+		} catch(err) {
+			return {}
+		}
+	}
+
+	public async readForumThreadList(id: number) {
+		try {
+			const list = await this.storage.readdir(`meta/forum/${id}/`)
+			const build = []
+
+			for (const filename of list) {
+				if (filename.match(/^[0-9]+\.json$/)) {
+					build.push(parseInt(filename.substring(0, filename.length - 5)))
+				}
+			}
+
+			return build
+		} catch(err) {
+			return []
+		}
+	}
+
+	public async writeForumCategory(value: LocalForumCategory) {
+		await this.storage.mkdir(`meta/forum/category`)
+		await this.storage.writeJson(`meta/forum/category/${value.id}.json`, value)
+	}
+
+	public async readForumThread(category: number, thread: number) {
+		return await this.readMeta<LocalForumThread>(`meta/forum/${category}/${thread}.json`, {category: category, thread: thread})
+	}
+
+	public async writeForumThread(category: number, thread: number | LocalForumThread, value?: LocalForumThread) {
+		if (value === undefined && typeof thread == 'number') {
+			throw new TypeError('No thread provided')
+		}
+
+		await this.storage.mkdir(`meta/forum/${category}`)
+
+		if (typeof thread == 'number') {
+			await this.storage.writeJson(`meta/forum/${category}/${thread}.json`, value)
+		} else {
+			await this.storage.writeJson(`meta/forum/${category}/${thread.id}.json`, thread)
+		}
+
+		if (this.indexing) {
+			this.queueSearchThread(category, typeof thread == 'number' ? thread : thread.id)
+		}
+	}
+
+	public async readForumPost(post: number) {
+		return await this.readMeta<LocalForumPost>(`meta/forum/post/${post}.json`, {post: post})
+	}
+
+	public async writeForumPost(post: number, value: LocalForumPost) {
+		await this.storage.mkdir(`meta/forum/post`)
+		await this.storage.writeJson(`meta/forum/post/${post}.json`, value)
+	}
+
+	/**
+	 * @returns SHA-256 of written HTML
+	 */
+	public async writePostRevision(category: number, thread: number, post: number, revision: 'latest' | number, value: string) {
+		await this.storage.mkdir(`forum/${category}/${thread}/${post}/`)
+		await this.storage.writeFile(`forum/${category}/${thread}/${post}/${revision}.html`, value)
+		return sha256(value)
+	}
+
+	/**
+	 * Path of archive for 7z
+	 *
+	 * @throws Error if storage backend does not keep files on local file system
+	 */
+	private archivePath(path: string) {
+		const local = this.storage.localPath(path)
+
+		if (local === null) {
+			throw new Error(`Storage backend does not support archives`)
+		}
+
+		return local
+	}
+
+	/**
+	 * Unpacks archive into temporary directory for callback, callback gets null if there is no such archive
+	 */
+	private async withExtracted<T>(archive: string, callback: (extracted: StorageBackend | null) => Promise<T>): Promise<T> {
+		let local: string
+
+		try {
+			local = this.archivePath(archive)
+			await promises.stat(local)
+		} catch(err) {
+			return await callback(null)
+		}
+
+		const directory = await promises.mkdtemp(`${tmpdir()}/wikicomma-`)
+
+		try {
+			await extractZipFiles(local, directory)
+			return await callback(new FileSystemBackend(directory))
+		} finally {
+			await promises.rm(directory, {recursive: true, force: true})
 		}
 	}
 
-	public async writeForumCategory(value: LocalForumCategory) {
-		await promises.mkdir(`${this._workingDirectory}/meta/forum/category`, {recursive: true})
-		await promises.writeFile(`${this._workingDirectory}/meta/forum/category/${value.id}.json`, JSON.stringify(value, null, 4))
-	}
+	private static async readNumberedFiles(storage: StorageBackend, directory: string, extension: string, into: Map<string, string>) {
+		let listing: string[]
 
-	public async readForumThread(category: number, thread: number) {
 		try {
-			const read = await promises.readFile(`${this._workingDirectory}/meta/forum/${category}/${thread}.json`, {encoding: 'utf-8'})
-			return JSON.parse(read) as LocalForumThread
+			listing = await storage.readdir(directory)
 		} catch(err) {
-			return null
+			return
+		}
+
+		for (const file of listing) {
+			if (file.endsWith(extension)) {
+				into.set(file.substring(0, file.length - extension.length), await storage.readTextFile(`${directory}/${file}`))
+			}
 		}
 	}
 
-	public async writeForumThread(category: number, thread: number | LocalForumThread, value?: LocalForumThread) {
-		if (value === undefined && typeof thread == 'number') {
-			throw new TypeError('No thread provided')
+	/**
+	 * Reads every stored revision of page at once, which is much faster than reading them one by one
+	 *
+	 * @returns revision number -> body
+	 */
+	public async readRevisions(page: string): Promise<Map<number, string>> {
+		const name = WikiDot.normalizeName(page)
+		const read = new Map<string, string>()
+
+		await this.withExtracted(`pages/${name}.7z`, async extracted => {
+			if (extracted !== null) {
+				await WikiDot.readNumberedFiles(extracted, '', '.txt', read)
+			}
+		})
+
+		// loose revisions are newer than archived ones
+		await WikiDot.readNumberedFiles(this.storage, `pages/${name}`, '.txt', read)
+
+		const result = new Map<number, string>()
+
+		for (const [revision, body] of read) {
+			if (/^\d+$/.test(revision)) {
+				result.set(parseInt(revision), body)
+			}
 		}
 
-		await promises.mkdir(`${this._workingDirectory}/meta/forum/${category}`, {recursive: true})
+		return result
+	}
 
-		if (typeof thread == 'number') {
-			await promises.writeFile(`${this._workingDirectory}/meta/forum/${category}/${thread}.json`, JSON.stringify(value, null, 4))
-		} else {
-			await promises.writeFile(`${this._workingDirectory}/meta/forum/${category}/${thread.id}.json`, JSON.stringify(thread, null, 4))
+	/**
+	 * Reads HTML of every stored post revision of thread at once
+	 *
+	 * @returns post id -> revision ('latest' or revision id) -> HTML
+	 */
+	public async readPostRevisions(category: number, thread: number): Promise<Map<number, Map<string, string>>> {
+		const result = new Map<number, Map<string, string>>()
+
+		const readThread = async (storage: StorageBackend, directory: string) => {
+			let posts: string[]
+
+			try {
+				posts = await storage.readdir(directory)
+			} catch(err) {
+				return
+			}
+
+			for (const post of posts) {
+				if (!/^\d+$/.test(post)) {
+					continue
+				}
+
+				let revisions = result.get(parseInt(post))
+
+				if (revisions === undefined) {
+					revisions = new Map()
+					result.set(parseInt(post), revisions)
+				}
+
+				await WikiDot.readNumberedFiles(storage, `${directory}/${post}`, '.html', revisions)
+			}
 		}
+
+		await this.withExtracted(`forum/${category}/${thread}.7z`, async extracted => {
+			if (extracted !== null) {
+				await readThread(extracted, '')
+			}
+		})
+
+		await readThread(this.storage, `forum/${category}/${thread}`)
+		return result
 	}
 
-	public async readForumPost(post: number) {
+	/**
+	 * Reads stored post revision HTML, either loose or from thread archive
+	 *
+	 * @returns null if revision is not stored
+	 */
+	public async readPostRevision(category: number, thread: number, post: number, revision: 'latest' | number): Promise<string | null> {
 		try {
-			const read = await promises.readFile(`${this._workingDirectory}/meta/forum/post/${post}.json`, {encoding: 'utf-8'})
-			return JSON.parse(read) as LocalForumPost
+			return await this.storage.readTextFile(`forum/${category}/${thread}/${post}/${revision}.html`)
 		} catch(err) {
-			return null
+
 		}
-	}
 
-	public async writeForumPost(post: number, value: LocalForumPost) {
-		await promises.mkdir(`${this._workingDirectory}/meta/forum/post`, {recursive: true})
-		await promises.writeFile(`${this._workingDirectory}/meta/forum/post/${post}.json`, JSON.stringify(value, null, 4))
-	}
+		if (!(await this._postRevisionList7z(category, thread, post)).includes(`${revision}.html`)) {
+			return null
+		}
 
-	public async writePostRevision(category: number, thread: number, post: number, revision: 'latest' | number, value: string) {
-		await promises.mkdir(`${this._workingDirectory}/forum/${category}/${thread}/${post}/`, {recursive: true})
-		await promises.writeFile(`${this._workingDirectory}/forum/${category}/${thread}/${post}/${revision}.html`, value)
+		return (await readZipFile(this.archivePath(`forum/${category}/${thread}.7z`), `${post}/${revision}.html`)).toString('utf-8')
 	}
 
 	private async _postRevisionListFiles(category: number, thread: number, post: number) {
 		try {
-			return await promises.readdir(`${this._workingDirectory}/forum/${category}/${thread}/${post}/`)
+			return await this.storage.readdir(`forum/${category}/${thread}/${post}/`)
 		} catch(err) {
 			return []
 		}
@@ -2797,7 +3740,7 @@ export class WikiDot {
 
 	private async _postRevisionList7z(category: number, thread: number, post: number) {
 		try {
-			const list = await listZipFiles(`${this._workingDirectory}/forum/${category}/${thread}.7z`, {recursive: true})
+			const list = await listZipFiles(this.archivePath(`forum/${category}/${thread}.7z`), {recursive: true})
 			const build = []
 			const predicate = `${post}/`
 
@@ -2815,13 +3758,13 @@ export class WikiDot {
 
 	private async _readPostsAndRevsLists(category: number, thread: number): Promise<[string[], Map<string, string[]>]> {
 		try {
-			const posts = await promises.readdir(`${this._workingDirectory}/forum/${category}/${thread}/`)
+			const posts = await this.storage.readdir(`forum/${category}/${thread}/`)
 			const revs = new Map<string, string[]>()
 
 			for (const post of posts) {
 				const parsedNames = []
 
-				for (const filename of await promises.readdir(`${this._workingDirectory}/forum/${category}/${thread}/${post}/`)) {
+				for (const filename of await this.storage.readdir(`forum/${category}/${thread}/${post}/`)) {
 					if (filename.endsWith('.html')) {
 						parsedNames.push(filename.substring(0, filename.length - 5))
 					}
@@ -2838,7 +3781,7 @@ export class WikiDot {
 
 	private async _threadListFetchedReplies(category: number, thread: number) {
 		try {
-			return await promises.readdir(`${this._workingDirectory}/forum/${category}/${thread}/`)
+			return await this.storage.readdir(`forum/${category}/${thread}/`)
 		} catch(err) {
 			return []
 		}
@@ -2846,7 +3789,7 @@ export class WikiDot {
 
 	private async _threadListFetchedReplies7z(category: number, thread: number) {
 		try {
-			const list = await listZipFiles(`${this._workingDirectory}/forum/${category}/${thread}.7z`, {recursive: true})
+			const list = await listZipFiles(this.archivePath(`forum/${category}/${thread}.7z`), {recursive: true})
 			const build = []
 
 			for (const piece of list) {
@@ -2867,7 +3810,7 @@ export class WikiDot {
 
 	private async _readPostsAndRevsLists7z(category: number, thread: number): Promise<[string[], Map<string, string[]>]> {
 		try {
-			const list = await listZipFiles(`${this._workingDirectory}/forum/${category}/${thread}.7z`, {recursive: true})
+			const list = await listZipFiles(this.archivePath(`forum/${category}/${thread}.7z`), {recursive: true})
 			const posts: string[] = []
 			const revs = new Map<string, string[]>()
 			const matcher = /^(\d+)\/(.+?)\.html$/
@@ -2895,7 +3838,7 @@ export class WikiDot {
 				}
 			}
 
-			return [posts, new Map()]
+			return [posts, revs]
 		} catch(err) {
 			return [[], new Map()]
 		}
@@ -2903,7 +3846,7 @@ export class WikiDot {
 
 	private async _revisionList7z(page: string) {
 		try {
-			const list = await listZipFiles(`${this._workingDirectory}/pages/${WikiDot.normalizeName(page)}.7z`)
+			const list = await listZipFiles(this.archivePath(`pages/${WikiDot.normalizeName(page)}.7z`))
 			const build = []
 
 			for (const piece of list) {
@@ -2920,7 +3863,7 @@ export class WikiDot {
 
 	private async _revisionListFiles(page: string) {
 		try {
-			return await promises.readdir(`${this._workingDirectory}/pages/${WikiDot.normalizeName(page)}/`)
+			return await this.storage.readdir(`pages/${WikiDot.normalizeName(page)}/`)
 		} catch(err) {
 			return []
 		}
@@ -3027,15 +3970,231 @@ export class WikiDot {
 
 	public async revisionExists(page: string, revision: number) {
 		try {
-			await promises.stat(`${this._workingDirectory}/pages/${WikiDot.normalizeName(page)}/${revision}.txt`)
+			await this.storage.stat(`pages/${WikiDot.normalizeName(page)}/${revision}.txt`)
+			return true
+		} catch(err) {
+			return false
+		}
+	}
+
+	/**
+	 * Compares stored content against its checksum, content without recorded checksum is considered intact
+	 */
+	private async contentIntact(read: () => Promise<string | null>, expected: string | undefined, what: string, context: Omit<FailureEvent, 'message'>) {
+		if (expected === undefined) {
 			return true
+		}
+
+		try {
+			const body = await read()
+
+			if (body !== null && sha256(body) == expected) {
+				return true
+			}
 		} catch(err) {
+			this.error(`Unable to read ${what}: ${err}`, context)
 			return false
 		}
+
+		this.error(`Checksum of ${what} does not match`, context)
+		return false
+	}
+
+	/**
+	 * Checks whenever everything listed in page metadata is present on disk and matches recorded checksums
+	 *
+	 * @param queue whenever to queue missing revisions and files, so next backup fetches them
+	 */
+	public async verifyPage(page: string, queue = false): Promise<PageVerification> {
+		const result: PageVerification = {
+			page: page,
+			metadata: false,
+			missing_revisions: [],
+			missing_files: []
+		}
+
+		const metadata = await this.readPageMetadata(page)
+
+		if (metadata === null) {
+			return result
+		}
+
+		result.metadata = true
+
+		if (queue) {
+			await this.initialize()
+		}
+
+		const localRevs = await this.revisionList(page)
+		// archive of page is extracted once, and only if there are checksums to compare against
+		let bodies: Promise<Map<number, string>> | null = null
+
+		const readBody = async (revision: number) => {
+			if (bodies === null) {
+				bodies = this.readRevisions(page)
+			}
+
+			return (await bodies).get(revision) ?? null
+		}
+
+		for (const revision of this.expectedRevisions(page, metadata)) {
+			const intact = localRevs.includes(revision.revision) && await this.contentIntact(
+				() => readBody(revision.revision),
+				revision.sha256,
+				`revision ${revision.revision} of ${page}`,
+				{page: page, revision: revision.revision, global_revision: revision.global_revision}
+			)
+
+			if (!intact) {
+				result.missing_revisions.push(revision.revision)
+
+				if (queue) {
+					this.pendingRevisions.data[revision.global_revision] = metadata.page_id
+					this.pendingRevisions.markDirty()
+
+					// pending revisions are resolved to pages through this map
+					if (this.pageIdMap.data[metadata.page_id] != metadata.name) {
+						this.pageIdMap.data[metadata.page_id] = metadata.name
+						this.pageIdMap.markDirty()
+					}
+				}
+			}
+		}
+
+		if (!this.content.includes('files') || this.pagePolicy(page) == 'skip') {
+			return result
+		}
+
+		for (const fileMeta of metadata.files) {
+			const match = WikiDot.splitFilePathRaw(fileMeta.url)
+
+			if (match == null) {
+				continue
+			}
+
+			const checksum = fileMeta.sha256 ?? (await this.readFileManifest(match[0]))[fileMeta.file_id]?.sha256
+
+			if (!await this.fileExists(match[0], fileMeta.file_id, isNaN(fileMeta.size_bytes) ? undefined : fileMeta.size_bytes, checksum)) {
+				result.missing_files.push(fileMeta.file_id)
+
+				if (queue) {
+					this.writeToFileMap(fileMeta, match[0], match[1])
+					this.pushPendingFiles(fileMeta.file_id)
+				}
+			}
+		}
+
+		return result
+	}
+
+	/**
+	 * Checks whenever every post listed in thread metadata has its latest version and revisions stored
+	 * and matching recorded checksums
+	 *
+	 * @returns null if thread metadata is missing
+	 */
+	public async verifyThread(category: number, thread: number): Promise<ThreadVerification | null> {
+		const metadata = await this.readForumThread(category, thread)
+
+		if (metadata === null) {
+			return null
+		}
+
+		const result: ThreadVerification = {
+			category: category,
+			thread: thread,
+			missing_posts: [],
+			missing_revisions: []
+		}
+
+		const [, stored] = await this.readPostsAndRevisionsOfThread(category, thread)
+
+		const intact = async (post: number, revision: 'latest' | number, expected: string | undefined) => {
+			return (stored.get(post) ?? []).includes(revision.toString()) && await this.contentIntact(
+				() => this.readPostRevision(category, thread, post, revision),
+				expected,
+				`revision ${revision} of post ${post}`,
+				{category: category, thread: thread, post: post}
+			)
+		}
+
+		const dive = async (post: LocalForumPost) => {
+			if (!await intact(post.id, 'latest', post.latest_sha256)) {
+				result.missing_posts.push(post.id)
+			}
+
+			for (const revision of post.revisions) {
+				if (!await intact(post.id, revision.id, revision.sha256)) {
+					result.missing_revisions.push([post.id, revision.id])
+				}
+			}
+
+			for (const child of post.children) {
+				await dive(child)
+			}
+		}
+
+		for (const post of metadata.posts) {
+			await dive(post)
+		}
+
+		return result
+	}
+
+	/**
+	 * Checks whenever page_id_map.json agrees with stored page metadata
+	 */
+	public async verifyPageIdMap(): Promise<PageIdMapVerification> {
+		const result: PageIdMapVerification = {
+			unmapped: [],
+			stale: []
+		}
+
+		await this.initialize()
+
+		const names = new Map<number, string>()
+		let listing: string[]
+
+		try {
+			listing = await this.storage.readdir(`meta/pages/`)
+		} catch(err) {
+			listing = []
+		}
+
+		for (const name of listing) {
+			if (!name.endsWith('.json')) {
+				continue
+			}
+
+			const metadata = await this.readMeta<PageMeta>(`meta/pages/${name}`)
+
+			if (metadata === null) {
+				continue
+			}
+
+			names.set(metadata.page_id, metadata.name)
+
+			if (this.pageIdMap.data[metadata.page_id] != metadata.name) {
+				result.unmapped.push(metadata.name)
+			}
+		}
+
+		for (const id in this.pageIdMap.data) {
+			if (!names.has(parseInt(id))) {
+				result.stale.push(parseInt(id))
+			}
+		}
+
+		return result
 	}
 
 	private async compressRevisions(normalizedName: string) {
-		const listing = await promises.readdir(`${this._workingDirectory}/pages/${normalizedName}/`)
+		// 7z works with local files only, other backends keep revisions loose
+		if (this.storage.localPath('') === null) {
+			return
+		}
+
+		const listing = await this.storage.readdir(`pages/${normalizedName}/`)
 		const txts = []
 		let shouldBeEmpty = true
 
@@ -3053,8 +4212,8 @@ export class WikiDot {
 				continue
 			}
 
-			const path = `${this._workingDirectory}/pages/${normalizedName}/${name}`
-			const stat = await promises.stat(path)
+			const path = `pages/${normalizedName}/${name}`
+			const stat = await this.storage.stat(path)
 
 			if (!stat.isFile()) {
 				this.error(`${path} is not a file?`)
@@ -3069,10 +4228,10 @@ export class WikiDot {
 			this.log(`Compressing revisions of ${normalizedName}`)
 
 			let rethrow = false
-			const zipPath = `${this._workingDirectory}/pages/${normalizedName}.7z`
+			const zipPath = `pages/${normalizedName}.7z`
 
 			try {
-				const stats = await promises.stat(zipPath)
+				const stats = await this.storage.stat(zipPath)
 
 				if (!stats.isFile()) {
 					rethrow = true
@@ -3081,7 +4240,7 @@ export class WikiDot {
 
 				if (stats.size == 0) {
 					this.error(`${zipPath} is zero length!`)
-					await promises.unlink(zipPath)
+					await this.storage.unlink(zipPath)
 				}
 			} catch(err) {
 				if (rethrow) {
@@ -3090,30 +4249,34 @@ export class WikiDot {
 			}
 
 			await addZipFiles(
-				zipPath,
+				this.archivePath(zipPath),
 				// txts,
 				// TODO: ENAMETOOLONG, if it is really needed (due to conditions above)
 				// if there are many txt files.
-				`${this._workingDirectory}/pages/${normalizedName}/*.txt`
+				this.archivePath(`pages/${normalizedName}/*.txt`)
 			)
 
 			for (const txt of txts) {
-				await promises.unlink(txt)
+				await this.storage.unlink(txt)
 			}
 		}
 
 		if (shouldBeEmpty) {
-			await promises.rm(`${this._workingDirectory}/pages/${normalizedName}/`, {recursive: true, force: false})
+			await this.storage.rm(`pages/${normalizedName}/`, {recursive: true, force: false})
 		} else {
-			this.log(`${this._workingDirectory}/pages/${normalizedName}/ is not empty, not removing it.`)
+			this.log(`pages/${normalizedName}/ is not empty, not removing it.`)
 		}
 	}
 
 	private async compressForumThread(category: number | string, thread: number | string) {
-		const listing = await promises.readdir(`${this._workingDirectory}/forum/${category}/${thread}`)
+		if (this.storage.localPath('') === null) {
+			return
+		}
+
+		const listing = await this.storage.readdir(`forum/${category}/${thread}`)
 
 		for (const subdir of listing) {
-			const path = `${this._workingDirectory}/forum/${category}/${thread}/${subdir}`
+			const path = `forum/${category}/${thread}/${subdir}`
 			const num = parseInt(subdir)
 
 			if (num != num) {
@@ -3121,14 +4284,14 @@ export class WikiDot {
 				return
 			}
 
-			const stat = await promises.stat(path)
+			const stat = await this.storage.stat(path)
 
 			if (!stat.isDirectory()) {
 				this.error(`${path} is not a directory, not compressing thread ${thread}`)
 				return
 			}
 
-			for (const subpath of await promises.readdir(path)) {
+			for (const subpath of await this.storage.readdir(path)) {
 				const npath = `${path}/${subpath}`
 
 				if (!subpath.endsWith('.html')) {
@@ -3147,7 +4310,7 @@ export class WikiDot {
 					}
 				}
 
-				const stat = await promises.stat(npath)
+				const stat = await this.storage.stat(npath)
 
 				if (!stat.isFile()) {
 					this.error(`${npath} is not a file, not compressing thread ${thread}`)
@@ -3159,10 +4322,10 @@ export class WikiDot {
 		this.log(`Compressing forum thread ${thread} in category ${category}`)
 
 		let rethrow = false
-		const zipPath = `${this._workingDirectory}/forum/${category}/${thread}.7z`
+		const zipPath = `forum/${category}/${thread}.7z`
 
 		try {
-			const stats = await promises.stat(zipPath)
+			const stats = await this.storage.stat(zipPath)
 
 			if (!stats.isFile()) {
 				rethrow = true
@@ -3171,7 +4334,7 @@ export class WikiDot {
 
 			if (stats.size == 0) {
 				this.error(`${zipPath} is zero length!`)
-				await promises.unlink(zipPath)
+				await this.storage.unlink(zipPath)
 			}
 		} catch(err) {
 			if (rethrow) {
@@ -3180,81 +4343,269 @@ export class WikiDot {
 		}
 
 		await addZipFiles(
-			zipPath,
-			`${this._workingDirectory}/forum/${category}/${thread}/*.*`,
+			this.archivePath(zipPath),
+			this.archivePath(`forum/${category}/${thread}/*.*`),
 
 			{
 				recursive: true
 			}
 		)
 
-		await promises.rm(`${this._workingDirectory}/forum/${category}/${thread}`, {recursive: true, force: false})
+		await this.storage.rm(`forum/${category}/${thread}`, {recursive: true, force: false})
 	}
 
+	/**
+	 * @returns SHA-256 of written body
+	 */
 	public async writeRevision(page: string, revision: number, body: string) {
-		await promises.mkdir(`${this._workingDirectory}/pages/${WikiDot.normalizeName(page)}`, {recursive: true})
-		await promises.writeFile(`${this._workingDirectory}/pages/${WikiDot.normalizeName(page)}/${revision}.txt`, body)
+		await this.storage.mkdir(`pages/${WikiDot.normalizeName(page)}`)
+		await this.storage.writeFile(`pages/${WikiDot.normalizeName(page)}/${revision}.txt`, body)
+
+		if (this.indexing) {
+			this.queueSearchPage(page)
+		}
+
+		return sha256(body)
 	}
 
-	public async readPageMetadata(page: string) {
+	/**
+	 * Reads stored revision body, either loose or from page archive
+	 *
+	 * @returns null if revision is not stored
+	 */
+	public async readRevision(page: string, revision: number): Promise<string | null> {
 		try {
-			const read = await promises.readFile(`${this._workingDirectory}/meta/pages/${WikiDot.normalizeName(page)}.json`, {encoding: 'utf-8'})
-			return JSON.parse(read) as PageMeta
+			return await this.storage.readTextFile(`pages/${WikiDot.normalizeName(page)}/${revision}.txt`)
 		} catch(err) {
+
+		}
+
+		if (!(await this._revisionList7z(page)).includes(`${revision}.txt`)) {
 			return null
 		}
+
+		return (await readZipFile(this.archivePath(`pages/${WikiDot.normalizeName(page)}.7z`), `${revision}.txt`)).toString('utf-8')
+	}
+
+	/**
+	 * @returns body of newest revision of page, null if page or the revision is not stored
+	 */
+	public async readLatestRevision(page: string): Promise<string | null> {
+		const meta = await this.readPageMetadata(page)
+		const latest = meta !== null ? findMostRevision(meta.revisions) : null
+		return latest !== null ? await this.readRevision(page, latest) : null
+	}
+
+	public async readPageMetadata(page: string) {
+		return await this.readMeta<PageMeta>(`meta/pages/${WikiDot.normalizeName(page)}.json`, {page: page})
 	}
 
 	public async pageMetadataExists(page: string) {
 		try {
-			return (await promises.stat(`${this._workingDirectory}/meta/pages/${WikiDot.normalizeName(page)}.json`)).isFile()
+			return (await this.storage.stat(`meta/pages/${WikiDot.normalizeName(page)}.json`)).isFile()
 		} catch(err) {
 			return false
 		}
 	}
 
-	public async markPageRemoved(page: string) {
-		try {
-			await promises.unlink(`${this._workingDirectory}/meta/pages/${WikiDot.normalizeName(page)}.json`)
-		} catch(err) {
-			this.error(String(err))
+	/**
+	 * Deletes stored page, or moves it into graveyard if tombstones are enabled
+	 *
+	 * @param replaced whenever another page was created under the same name
+	 */
+	public async markPageRemoved(page: string, replaced = false) {
+		const name = WikiDot.normalizeName(page)
+		const fileDirectories = await this.fileDirectories(page)
+
+		if (this.indexing) {
+			this.queueSearchPage(page)
+		}
+
+		if (this.tombstones) {
+			try {
+				await this.storage.unlink(`meta/pages/${name}.json.bak`).catch(() => {})
+				await this.graveyard.bury(replaced ? 'replaced_page' : 'page', page, name, [`meta/pages/${name}.json`, `meta/history/${name}.jsonl`, `pages/${name}.7z`, `pages/${name}`, ...fileDirectories])
+			} catch(err) {
+				this.error(`Unable to move ${page} into graveyard: ${err}`, {page: page})
+			}
+
+			return
 		}
 
 		try {
-			await promises.unlink(`${this._workingDirectory}/pages/${WikiDot.normalizeName(page)}.7z`)
+			await this.storage.unlink(`meta/pages/${WikiDot.normalizeName(page)}.json`)
 		} catch(err) {
 			this.error(String(err))
 		}
 
+		// previous version kept by atomic write
+		await this.storage.unlink(`meta/pages/${WikiDot.normalizeName(page)}.json.bak`).catch(() => {})
+
 		try {
-			await promises.rm(`${this._workingDirectory}/pages/${WikiDot.normalizeName(page)}`, {recursive: true})
+			await this.storage.unlink(`pages/${WikiDot.normalizeName(page)}.7z`)
 		} catch(err) {
 			this.error(String(err))
 		}
 
 		try {
-			await promises.rm(`${this._workingDirectory}/files/${WikiDot.normalizeName(page)}`, {recursive: true})
+			await this.storage.rm(`pages/${WikiDot.normalizeName(page)}`, {recursive: true})
 		} catch(err) {
 			this.error(String(err))
 		}
+
+		await this.storage.unlink(`meta/history/${WikiDot.normalizeName(page)}.jsonl`).catch(() => {})
+
+		for (const directory of fileDirectories) {
+			try {
+				await this.storage.rm(directory, {recursive: true, force: true})
+			} catch(err) {
+				this.error(String(err))
+			}
+		}
+	}
+
+	/**
+	 * Directories with stored files of page. Files are stored by directory of their local--files URL,
+	 * which is not normalized name of page, e.g. files/component%3Afoo of component:foo
+	 */
+	private async fileDirectories(page: string) {
+		const directories = [`files/${WikiDot.normalizeName(page)}`]
+
+		for (const file of (await this.readPageMetadata(page))?.files ?? []) {
+			const path = WikiDot.storedFilePath(file)
+			const directory = path !== null ? path.substring(0, path.lastIndexOf('/')) : null
+
+			if (directory !== null && !directories.includes(directory)) {
+				directories.push(directory)
+			}
+		}
+
+		return directories
+	}
+
+	/**
+	 * Moves graveyard entry back into archive. Restored page is mapped by its id again,
+	 * restored file is added back to metadata of its page
+	 */
+	public async restoreTombstone(id: string): Promise<Tombstone> {
+		await this.initialize()
+		const tombstone = await this.graveyard.restore(id)
+
+		if (tombstone.kind == 'file') {
+			const metadata = await this.readPageMetadata(tombstone.page)
+
+			if (metadata !== null && tombstone.file !== undefined && !metadata.files.some(file => file.file_id == tombstone.file!.file_id)) {
+				metadata.files.push(tombstone.file)
+				await this.writePageMetadata(tombstone.page, metadata)
+			}
+		} else {
+			const metadata = await this.readPageMetadata(tombstone.page)
+
+			if (metadata !== null) {
+				this.pageIdMap.data[metadata.page_id] = metadata.name
+				this.pageIdMap.markDirty()
+
+				if (this.indexing) {
+					this.queueSearchPage(metadata.name)
+				}
+			}
+		}
+
+		return tombstone
 	}
 
 	public async writePageMetadata(page: string, meta: PageMeta) {
-		await promises.mkdir(`${this._workingDirectory}/meta/pages`, {recursive: true})
-		await promises.writeFile(`${this._workingDirectory}/meta/pages/${WikiDot.normalizeName(page)}.json`, JSON.stringify(meta, null, 4))
+		await this.storage.mkdir(`meta/pages`)
+		await this.storage.writeJson(`meta/pages/${WikiDot.normalizeName(page)}.json`, meta)
+
+		if (this.indexing) {
+			this.queueSearchPage(page)
+		}
 	}
 
-	public async loadFileMeta(path: string) {
+	/**
+	 * Appends changes of rating, votes, tags, title, parent, lock status and file list to history log of page
+	 */
+	private async recordPageHistory(page: string, previous: PageMeta | null, next: PageMeta) {
+		const path = `meta/history/${WikiDot.normalizeName(page)}.jsonl`
+		const entries: PageHistoryEntry[] = []
+
 		try {
-			const read = await promises.readFile(`${this._workingDirectory}/meta/files/${path}.json`, {encoding: 'utf-8'})
-			return JSON.parse(read) as FileMeta
+			await this.storage.stat(path)
 		} catch(err) {
-			return null
+			// page backed up before history was kept, previous state is known since its metadata was written
+			if (previous !== null) {
+				const written = await this.storage.stat(`meta/pages/${WikiDot.normalizeName(page)}.json`).then(stat => stat.mtimeMs, () => Date.now())
+				const baseline = diffPageMeta(null, previous, Math.floor(written))
+
+				if (baseline !== null) {
+					entries.push(baseline)
+				}
+			}
+		}
+
+		const entry = diffPageMeta(previous, next)
+
+		if (entry !== null) {
+			entries.push(entry)
+		}
+
+		if (entries.length == 0) {
+			return
+		}
+
+		try {
+			await this.storage.mkdir(`meta/history`)
+			await this.storage.appendFile(path, entries.map(entry => JSON.stringify(entry) + '\n').join(''))
+		} catch(err) {
+			this.error(`Unable to write history of ${page}: ${err}`, {page: page})
+		}
+	}
+
+	/**
+	 * @returns history log of page, oldest entry first
+	 */
+	public async readPageHistory(page: string): Promise<PageHistoryEntry[]> {
+		let read: string
+
+		try {
+			read = await this.storage.readTextFile(`meta/history/${WikiDot.normalizeName(page)}.jsonl`)
+		} catch(err) {
+			return []
+		}
+
+		const entries: PageHistoryEntry[] = []
+
+		for (const line of read.split('\n')) {
+			if (line.trim() == '') {
+				continue
+			}
+
+			try {
+				entries.push(JSON.parse(line))
+			} catch(err) {
+				// line cut short by crash
+				this.error(`Skipping malformed line in history of ${page}`, {page: page})
+			}
 		}
+
+		return entries
+	}
+
+	/**
+	 * @returns rating, votes, tags, title, parent, lock status and file list of page as they were at specified moment,
+	 * or null if page was not backed up yet back then
+	 */
+	public async pageStateAt(page: string, at: Date): Promise<PageSnapshot | null> {
+		return replayHistory(await this.readPageHistory(page), at.getTime())
+	}
+
+	public async loadFileMeta(path: string) {
+		return await this.readMeta<FileMeta>(`meta/files/${path}.json`)
 	}
 
 	public async writeSiteMap(map: [string, Date | null][]) {
-		await promises.mkdir(`${this._workingDirectory}/meta`, {recursive: true})
+		await this.storage.mkdir(`meta`)
 
 		const rebuild: any = {}
 
@@ -3266,23 +4617,22 @@ export class WikiDot {
 			}
 		}
 
-		await promises.writeFile(`${this._workingDirectory}/meta/sitemap.json`, JSON.stringify(rebuild, null, 4))
+		await this.storage.writeJson(`meta/sitemap.json`, rebuild)
 	}
 
 	public async readSiteMap() {
-		try {
-			const read = await promises.readFile(`${this._workingDirectory}/meta/sitemap.json`, {encoding: 'utf-8'})
-			const json: any = JSON.parse(read)
+		const json = await this.readMeta<{[key: string]: number | null}>('meta/sitemap.json')
 
-			const remapped = new Map<string, number | null>()
+		if (json === null) {
+			return null
+		}
 
-			for (const a in json) {
-				remapped.set(a, json[a])
-			}
+		const remapped = new Map<string, number | null>()
 
-			return remapped
-		} catch(err) {
-			return null
+		for (const a in json) {
+			remapped.set(a, json[a])
 		}
+
+		return remapped
 	}
 }
@@ -24,6 +24,7 @@ import { HTTPClient } from "./HTTPClient"
 // OTHER DEALINGS IN THE SOFTWARE.
 
 import {promises} from 'fs'
+import { CorruptFileError, readJson, writeJson } from './storage'
 import parse, { HTMLElement } from "node-html-parser"
 
 export enum UserActivity {
@@ -99,6 +100,10 @@ export class WikiDotUserList {
 
 	private static bucketSize = 13
 
+	private static reportCorrupt(err: CorruptFileError) {
+		process.stderr.write(`[WikiDot Userlist] ${err.message}, using previous version if it is intact\n`)
+	}
+
 	private fetchedOnce = false
 
 	private usersToFetch: UserFetchList = []
@@ -171,12 +176,47 @@ export class WikiDotUserList {
 	private async writePrefetch(id: number, data: User, list: {[key: string]: User}) {
 		list[id] = data
 		const bucket = id >> WikiDotUserList.bucketSize
-		await promises.writeFile(`${this.workFolder}/${bucket}.json`, JSON.stringify(list, null, 4))
+		await writeJson(`${this.workFolder}/${bucket}.json`, list)
 
 		if (this.storedInMemory) {
 			this.mapping.set(data.username, data)
 			this.invMapping.set(id, data)
 		}
+
+		this.usernames.set(id, data.username)
+	}
+
+	// usernames found by resolveUsername
+	private usernames = new Map<number, string>()
+
+	/**
+	 * Resolves author from stored metadata to username through stored user list, without accessing network.
+	 * Old metadata has usernames instead of IDs, they are returned as is
+	 *
+	 * @returns null if account is deleted or user is not stored
+	 */
+	public async resolveUsername(author: number | string | null | undefined): Promise<string | null> {
+		if (typeof author == 'string') {
+			return author
+		}
+
+		if (author === null || author === undefined) {
+			return null
+		}
+
+		let username = this.usernames.get(author)
+
+		if (username === undefined) {
+			username = (await this.read(author).catch(() => null))?.username
+
+			if (username === undefined) {
+				return null
+			}
+
+			this.usernames.set(author, username)
+		}
+
+		return username
 	}
 
 	public async read(id: number): Promise<User | null> {
@@ -208,7 +248,7 @@ export class WikiDotUserList {
 		const bucket = id >> WikiDotUserList.bucketSize
 
 		try {
-			return JSON.parse(await promises.readFile(`${this.workFolder}/${bucket}.json`, {encoding: 'utf-8'}))
+			return await readJson(`${this.workFolder}/${bucket}.json`, WikiDotUserList.reportCorrupt)
 		} catch(err) {
 			return null
 		}
@@ -235,7 +275,7 @@ export class WikiDotUserList {
 		for (const name of (await promises.readdir(this.workFolder))) {
 			if (name.match(/^[0-9]+\.json$/)) {
 				try {
-					const list: {[key: string]: User} = JSON.parse(await promises.readFile(`${this.workFolder}/${name}`, {encoding: 'utf-8'}))
+					const list = await readJson<{[key: string]: User}>(`${this.workFolder}/${name}`, WikiDotUserList.reportCorrupt) ?? {}
 					let changes = false
 
 					for (const id in list) {
@@ -250,7 +290,7 @@ export class WikiDotUserList {
 
 					if (changes) {
 						process.stderr.write(`[WikiDot Userlist] Fixing up ${this.workFolder}/${name}\n`)
-						await promises.writeFile(`${this.workFolder}/${name}`, JSON.stringify(list, null, 4))
+						await writeJson(`${this.workFolder}/${name}`, list)
 					}
 				} catch(err) {
 					process.stderr.write(`Error reading ${this.workFolder}/${name}!\n`)
@@ -291,7 +331,7 @@ export class WikiDotUserList {
 		try {
 			while (this.wantToWritePrending) {
 				this.wantToWritePrending = false
-				await promises.writeFile(`${this.workFolder}/pending.json`, JSON.stringify(this.usersToFetch, null, 4))
+				await writeJson(`${this.workFolder}/pending.json`, this.usersToFetch)
 			}
 		} finally {
 			this.writingPending = false
@@ -304,7 +344,7 @@ export class WikiDotUserList {
 			this.fetchedOnce = true
 
 			try {
-				this.usersToFetch = JSON.parse(await promises.readFile(`${this.workFolder}/pending.json`, {encoding: 'utf-8'}))
+				this.usersToFetch = await readJson<UserFetchList>(`${this.workFolder}/pending.json`, WikiDotUserList.reportCorrupt) ?? []
 
 				for (const [a, b] of this.usersToFetch) {
 					if (a !== skipid && b !== skipid) {
@@ -0,0 +1,887 @@
+#!/usr/bin/env node
+
+import { createWriteStream } from 'fs'
+import { Lock, WikiDot, WorkAbortedError } from './WikiDot'
+import { blockingQueue, parallel } from './worker'
+import { configPath, DaemonConfig, loadConfig } from './DaemonConfig'
+import { ControlServer } from './ControlServer'
+import { fixForumUsernames } from './fix_forum_usernames'
+import { fixRevisionUsernames } from './fix_rev_usernames'
+import { removeDeletedPages } from './remove_deleted_pages'
+import { fixFileNames } from './fixnames'
+import { verifyWikis } from './verify'
+import { exportPages } from './export_pages'
+import { exportHtml } from './export_html'
+import { exportWikidot } from './export_wikidot'
+import { exportGit } from './export_git'
+import { exportForums } from './export_forum'
+import { DEFAULT_VIEWER_ADDRESS, ViewerServer } from './ViewerServer'
+import { diffRevisions, formatRevisionDiff } from './revision_diff'
+import { ArchiveDatabase } from './ArchiveDatabase'
+
+import http = require('http')
+import https = require('https')
+
+export interface CommandLine {
+	command: string
+	positional: string[]
+	config?: string
+	wikis: string[]
+	only?: 'pages' | 'forum' | 'files'
+	dryRun: boolean
+	incremental?: boolean
+	output?: string
+	// moment in time, milliseconds since epoch
+	at?: number
+	queue: boolean
+	// host:port
+	listen?: string
+	words: boolean
+	help: boolean
+}
+
+interface Agents {
+	httpsagent: https.Agent
+	httpagent: http.Agent
+}
+
+interface Command {
+	usage: string
+	description: string
+	// whether --dry-run is accepted
+	dryRun?: boolean
+	// whether --only is accepted
+	only?: boolean
+	// whether --queue is accepted
+	queue?: boolean
+	// whether --at is accepted
+	at?: boolean
+	// whether --listen is accepted
+	listen?: boolean
+	// whether --words is accepted
+	words?: boolean
+	// exit code
+	run(config: DaemonConfig, options: CommandLine, agents: Agents): Promise<number>
+}
+
+const onlyValues = ['pages', 'forum', 'files']
+
+/**
+ * Parses command line arguments (without node and script path)
+ */
+export function parseArguments(args: string[]): CommandLine {
+	const result: CommandLine = {
+		command: '',
+		positional: [],
+		wikis: [],
+		dryRun: false,
+		queue: false,
+		words: false,
+		help: false
+	}
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i]
+
+		if (!arg.startsWith('--')) {
+			if (result.command == '') {
+				result.command = arg
+			} else {
+				result.positional.push(arg)
+			}
+
+			continue
+		}
+
+		const equals = arg.indexOf('=')
+		const flag = equals == -1 ? arg.substring(2) : arg.substring(2, equals)
+
+		const value = () => {
+			if (equals != -1) {
+				return arg.substring(equals + 1)
+			}
+
+			if (i + 1 >= args.length) {
+				throw new Error(`--${flag} requires a value`)
+			}
+
+			return args[++i]
+		}
+
+		switch (flag) {
+			case 'config':
+				result.config = value()
+				break
+
+			case 'wiki':
+				for (const name of value().split(',')) {
+					if (name != '') {
+						result.wikis.push(name)
+					}
+				}
+
+				break
+
+			case 'only': {
+				const only = value()
+
+				if (!onlyValues.includes(only)) {
+					throw new Error(`--only must be one of ${onlyValues.join(', ')}`)
+				}
+
+				result.only = only as CommandLine['only']
+				break
+			}
+
+			case 'output':
+				result.output = value()
+				break
+
+			case 'dry-run':
+				result.dryRun = true
+				break
+
+			case 'incremental':
+				result.incremental = true
+				break
+
+			case 'full':
+				result.incremental = false
+				break
+
+			case 'queue':
+				result.queue = true
+				break
+
+			case 'at': {
+				const at = value()
+				const parsed = new Date(at).getTime()
+
+				if (isNaN(parsed)) {
+					throw new Error(`--at must be a date, got ${at}`)
+				}
+
+				result.at = parsed
+				break
+			}
+
+			case 'listen':
+				result.listen = value()
+				break
+
+			case 'words':
+				result.words = true
+				break
+
+			case 'help':
+				result.help = true
+				break
+
+			default:
+				throw new Error(`Unknown option --${flag}`)
+		}
+	}
+
+	return result
+}
+
+function makeAgents(): Agents {
+	return {
+		httpsagent: new https.Agent({
+			keepAlive: true,
+			keepAliveMsecs: 5000,
+			maxSockets: 8
+		}),
+
+		httpagent: new http.Agent({
+			keepAlive: true,
+			keepAliveMsecs: 5000,
+			maxSockets: 8
+		})
+	}
+}
+
+/**
+ * On first SIGINT or SIGTERM calls abort, so running work can finish and be saved,
+ * on second one exits right away
+ *
+ * @returns function which tells whenever signal was received, and function which removes signal handlers
+ */
+function handleShutdown(abort: () => void) {
+	let received = false
+
+	const handler = (signal: NodeJS.Signals) => {
+		if (received) {
+			process.stderr.write(`Received ${signal} again, exiting without saving progress\n`)
+			process.exit(1)
+		}
+
+		received = true
+		process.stderr.write(`Received ${signal}, finishing running tasks and saving progress. Send it again to exit immediately\n`)
+		abort()
+	}
+
+	process.on('SIGINT', handler)
+	process.on('SIGTERM', handler)
+
+	const remove = () => {
+		process.off('SIGINT', handler)
+		process.off('SIGTERM', handler)
+	}
+
+	return [() => received, remove] as const
+}
+
+const commands: {[key: string]: Command} = {
+	'backup': {
+		usage: 'backup [--wiki name] [--only pages|forum|files] [--incremental|--full] [--dry-run]',
+		description: 'back up configured wikis, three at a time',
+		dryRun: true,
+		only: true,
+
+		async run(config, options, {httpsagent, httpagent}) {
+			const wikis = config.selectWikis(options.wikis)
+			const tasks: (() => Promise<void>)[] = []
+			const lock = new Lock()
+			const userList = config.makeUserList(8, httpsagent, httpagent)
+			const running = new Set<WikiDot>()
+			let failed = 0
+
+			const [interrupted, removeHandlers] = handleShutdown(() => {
+				for (const wiki of running) {
+					wiki.abort()
+				}
+			})
+
+			await userList.initialize()
+
+			for (const entry of wikis) {
+				tasks.push(async function() {
+					if (interrupted()) {
+						return
+					}
+
+					const wiki = config.makeWiki(entry, userList, true, httpsagent, httpagent)
+					running.add(wiki)
+
+					try {
+						await wiki.fetchToken()
+
+						await wiki.workLoop(lock, {
+							...config.makeWorkLoopOptions(options.incremental),
+							only: options.only,
+							dryRun: options.dryRun
+						})
+					} catch(err) {
+						if (err instanceof WorkAbortedError) {
+							console.error(`Backup of ${entry.name} was interrupted, next run resumes it`)
+						} else {
+							console.error(`Fetching wiki ${entry.name} failed`)
+							console.error(err)
+							failed++
+						}
+					} finally {
+						running.delete(wiki)
+						await wiki.flush()
+						wiki.client?.ratelimit?.stopTimer()
+					}
+				})
+			}
+
+			try {
+				await parallel(blockingQueue(tasks), 3)
+			} finally {
+				userList.client.ratelimit?.stopTimer()
+			}
+
+			if (interrupted()) {
+				return 130
+			}
+
+			// everything is saved, nothing to finish anymore
+			removeHandlers()
+			console.log('Shutting down in 10 seconds.')
+			await new Promise(resolve => setTimeout(resolve, 10_000))
+
+			return failed == 0 ? 0 : 1
+		}
+	},
+
+	'backup-page': {
+		usage: 'backup-page --wiki name [--dry-run] <page...>',
+		description: 'back up only listed pages of single wiki',
+		dryRun: true,
+
+		async run(config, options, {httpsagent, httpagent}) {
+			if (options.wikis.length != 1) {
+				throw new Error('backup-page requires exactly one --wiki')
+			}
+
+			if (options.positional.length == 0) {
+				throw new Error('No pages specified')
+			}
+
+			const [entry] = config.selectWikis(options.wikis)
+			const userList = config.makeUserList(8, httpsagent, httpagent)
+			const wiki = config.makeWiki(entry, userList, true, httpsagent, httpagent)
+			const [interrupted] = handleShutdown(() => wiki.abort())
+			let failed: string[]
+
+			try {
+				await userList.initialize()
+				await wiki.fetchToken()
+				failed = await wiki.backupPages(options.positional, options.dryRun)
+			} catch(err) {
+				if (interrupted() && err instanceof WorkAbortedError) {
+					return 130
+				}
+
+				throw err
+			} finally {
+				await wiki.flush()
+				wiki.client?.ratelimit?.stopTimer()
+				userList.client.ratelimit?.stopTimer()
+			}
+
+			if (failed.length != 0) {
+				process.stderr.write(`Failed to back up: ${failed.join(', ')}\n`)
+				return 1
+			}
+
+			return 0
+		}
+	},
+
+	'check-config': {
+		usage: 'check-config',
+		description: 'validate config file and report every problem found',
+
+		async run(config, options) {
+			// config is validated when it is loaded, invalid config never gets here
+			process.stdout.write(`${configPath(options.config)} is valid, ${config.wikis.length} wiki(s) configured\n`)
+			return 0
+		}
+	},
+
+	'daemon': {
+		usage: 'daemon',
+		description: 'start control server and wait for commands',
+
+		async run(config, options, {httpsagent, httpagent}) {
+			const userList = config.makeUserList(8, httpsagent, httpagent)
+			await userList.initialize()
+
+			const server = new ControlServer(config, userList, httpsagent, httpagent)
+
+			handleShutdown(async () => {
+				console.log('Shutting down control server...')
+				let code = 0
+
+				try {
+					await server.close()
+				} catch(err) {
+					console.error(`Unable to shut down control server cleanly`)
+					console.error(err)
+					code = 1
+				} finally {
+					userList.client.ratelimit?.stopTimer()
+				}
+
+				process.exit(code)
+			})
+
+			await server.listen()
+			return 0
+		}
+	},
+
+	'forum': {
+		usage: 'forum [--wiki name]',
+		description: 'replace usernames left in forum metadata by old versions with user IDs',
+
+		async run(config, options) {
+			await fixForumUsernames(config, config.selectWikis(options.wikis))
+			return 0
+		}
+	},
+
+	'users': {
+		usage: 'users [--wiki name]',
+		description: 'replace usernames left in page revision lists by old versions with user IDs',
+
+		async run(config, options) {
+			await fixRevisionUsernames(config, config.selectWikis(options.wikis))
+			return 0
+		}
+	},
+
+	'prune': {
+		usage: 'prune [--wiki name] [--dry-run]',
+		description: 'remove pages which are no longer present in sitemap',
+		dryRun: true,
+
+		async run(config, options) {
+			await removeDeletedPages(config, config.selectWikis(options.wikis), options.dryRun)
+			return 0
+		}
+	},
+
+	'fix-names': {
+		usage: 'fix-names [--wiki name] [--dry-run]',
+		description: 'rename stored files to current encoding of file names',
+		dryRun: true,
+
+		async run(config, options) {
+			await fixFileNames(config.base_directory, config.selectWikis(options.wikis).map(entry => entry.name), options.dryRun)
+			return 0
+		}
+	},
+
+	'verify': {
+		usage: 'verify [--wiki name] [--output file] [--queue]',
+		description: 'check stored pages, files and forum against metadata and write report as JSON lines, --queue makes next backup fetch what is missing',
+		queue: true,
+
+		async run(config, options) {
+			const wikis = config.selectWikis(options.wikis)
+			let problems: number
+
+			if (options.output === undefined) {
+				problems = await verifyWikis(config, process.stdout, wikis, options.queue)
+			} else {
+				const output = createWriteStream(options.output)
+
+				try {
+					problems = await verifyWikis(config, output, wikis, options.queue)
+				} finally {
+					await new Promise(resolve => output.end(resolve))
+				}
+			}
+
+			if (problems != 0) {
+				process.stderr.write(`${problems} problem(s) found${options.queue ? ', missing revisions and files are queued for next backup' : ''}\n`)
+				return 1
+			}
+
+			return 0
+		}
+	},
+
+	'history': {
+		usage: 'history --wiki name [--at date] <page>',
+		description: 'print recorded changes of rating, votes, tags, title, parent, lock status and files of page as JSON lines, or its state at specified date',
+		at: true,
+
+		async run(config, options) {
+			if (options.wikis.length != 1 || options.positional.length != 1) {
+				throw new Error('history requires exactly one --wiki and one page')
+			}
+
+			const [entry] = config.selectWikis(options.wikis)
+			const wiki = config.makeWiki(entry, null, false)
+			const page = options.positional[0]
+
+			try {
+				if (options.at !== undefined) {
+					const state = await wiki.pageStateAt(page, new Date(options.at))
+
+					if (state === null) {
+						process.stderr.write(`${page} was not backed up yet at ${new Date(options.at).toISOString()}\n`)
+						return 1
+					}
+
+					process.stdout.write(JSON.stringify(state, null, 4) + '\n')
+					return 0
+				}
+
+				const history = await wiki.readPageHistory(page)
+
+				if (history.length == 0) {
+					process.stderr.write(`No history recorded for ${page}\n`)
+					return 1
+				}
+
+				for (const entry of history) {
+					process.stdout.write(JSON.stringify(entry) + '\n')
+				}
+
+				return 0
+			} finally {
+				wiki.stopMetaSyncTimer()
+			}
+		}
+	},
+
+	'diff': {
+		usage: 'diff <wiki> <page> <revision> <revision> [--words]',
+		description: 'print changes between two stored revisions of page as unified diff, --words marks changed words instead of lines',
+		words: true,
+
+		async run(config, options) {
+			if (options.positional.length != 4) {
+				throw new Error('diff requires wiki, page and two revisions')
+			}
+
+			const [name, page, ...revisions] = options.positional
+
+			for (const revision of revisions) {
+				if (!/^\d+$/.test(revision)) {
+					throw new Error(`Invalid revision ${revision}`)
+				}
+			}
+
+			const [entry] = config.selectWikis([name])
+			const wiki = config.makeWiki(entry, null, false)
+			const userList = config.makeUserList()
+
+			try {
+				const diff = await diffRevisions(wiki, page, parseInt(revisions[0]), parseInt(revisions[1]), userList)
+				process.stdout.write(formatRevisionDiff(diff, options.words))
+				return 0
+			} finally {
+				wiki.stopMetaSyncTimer()
+				userList.client.ratelimit?.stopTimer()
+			}
+		}
+	},
+
+	'search': {
+		usage: 'search [--wiki name] <query...>',
+		description: 'find stored pages and forum posts containing every word of query, "quoted words" must appear together, prints JSON lines with best matches first',
+
+		async run(config, options) {
+			if (options.positional.length == 0) {
+				throw new Error('No query specified')
+			}
+
+			const query = options.positional.join(' ')
+			let found = 0
+
+			for (const entry of config.selectWikis(options.wikis)) {
+				const wiki = config.makeWiki(entry, null, false)
+				wiki.stopMetaSyncTimer()
+
+				for (const result of await wiki.searchIndex.search(query)) {
+					process.stdout.write(JSON.stringify({wiki: entry.name, ...result}) + '\n')
+					found++
+				}
+			}
+
+			if (found == 0) {
+				process.stderr.write(`Nothing found, if search index was never built, run reindex first\n`)
+				return 1
+			}
+
+			return 0
+		}
+	},
+
+	'reindex': {
+		usage: 'reindex [--wiki name]',
+		description: 'build search index of stored pages and forum posts from scratch',
+
+		async run(config, options) {
+			for (const entry of config.selectWikis(options.wikis)) {
+				const wiki = config.makeWiki(entry, null, false)
+				wiki.stopMetaSyncTimer()
+
+				await wiki.searchIndex.rebuild(wiki, message => process.stderr.write(`[${entry.name}]: ${message}\n`))
+				process.stderr.write(`[${entry.name}]: Search index built\n`)
+			}
+
+			return 0
+		}
+	},
+
+	'index-db': {
+		usage: 'index-db [--wiki name]',
+		description: 'rebuild rows of wikis and users in SQLite database archive.sqlite inside base directory from stored metadata',
+
+		async run(config, options) {
+			const database = await ArchiveDatabase.open(`${config.base_directory}/archive.sqlite`)
+			const userList = config.makeUserList()
+
+			try {
+				for (const entry of config.selectWikis(options.wikis)) {
+					const wiki = config.makeWiki(entry, null, false)
+					wiki.stopMetaSyncTimer()
+
+					const pages = await database.indexWiki(entry.name, wiki)
+					process.stderr.write(`[${entry.name}]: Indexed ${pages} pages\n`)
+				}
+
+				process.stderr.write(`Indexed ${await database.indexUsers(userList)} users\n`)
+				await database.save()
+			} finally {
+				database.close()
+				userList.client.ratelimit?.stopTimer()
+			}
+
+			return 0
+		}
+	},
+
+	'query': {
+		usage: 'query <sql...>',
+		description: 'run SQL statement against database built by index-db and print resulting rows as JSON lines, changes are not saved',
+
+		async run(config, options) {
+			if (options.positional.length == 0) {
+				throw new Error('No query specified')
+			}
+
+			const database = await ArchiveDatabase.open(`${config.base_directory}/archive.sqlite`)
+
+			try {
+				for (const row of database.query(options.positional.join(' '))) {
+					process.stdout.write(JSON.stringify(row) + '\n')
+				}
+			} finally {
+				database.close()
+			}
+
+			return 0
+		}
+	},
+
+	'graveyard': {
+		usage: 'graveyard [--wiki name]',
+		description: 'list removed pages and files kept in graveyard as JSON lines',
+
+		async run(config, options) {
+			for (const entry of config.selectWikis(options.wikis)) {
+				const wiki = config.makeWiki(entry, null, false)
+				wiki.stopMetaSyncTimer()
+
+				for (const tombstone of await wiki.graveyard.list()) {
+					process.stdout.write(JSON.stringify({wiki: entry.name, ...tombstone}) + '\n')
+				}
+			}
+
+			return 0
+		}
+	},
+
+	'restore': {
+		usage: 'restore --wiki name <id...>',
+		description: 'move entries of graveyard back into archive',
+
+		async run(config, options) {
+			if (options.wikis.length != 1) {
+				throw new Error('restore requires exactly one --wiki')
+			}
+
+			if (options.positional.length == 0) {
+				throw new Error('No tombstones specified')
+			}
+
+			const [entry] = config.selectWikis(options.wikis)
+			const wiki = config.makeWiki(entry, null, false)
+			let failed = 0
+
+			try {
+				for (const id of options.positional) {
+					try {
+						const tombstone = await wiki.restoreTombstone(id)
+						process.stdout.write(`Restored ${tombstone.kind == 'file' ? `file ${tombstone.file?.name ?? tombstone.paths[0]} of ` : ''}${tombstone.page}\n`)
+					} catch(err) {
+						process.stderr.write(`Unable to restore ${id}: ${(err as Error).message}\n`)
+						failed++
+					}
+				}
+			} finally {
+				await wiki.flush()
+			}
+
+			return failed == 0 ? 0 : 1
+		}
+	},
+
+	'export': {
+		usage: 'export [--wiki name] [--output file]',
+		description: 'write metadata of every page as JSON lines',
+
+		async run(config, options) {
+			const wikis = config.selectWikis(options.wikis)
+
+			if (options.output === undefined) {
+				await exportPages(config, process.stdout, wikis)
+				return 0
+			}
+
+			const output = createWriteStream(options.output)
+
+			try {
+				await exportPages(config, output, wikis)
+			} finally {
+				await new Promise(resolve => output.end(resolve))
+			}
+
+			return 0
+		}
+	},
+
+	'export-html': {
+		usage: 'export-html [--wiki name] --output directory',
+		description: 'render stored pages, their history, files and forum as static HTML site',
+
+		async run(config, options) {
+			if (options.output === undefined) {
+				throw new Error('export-html requires --output')
+			}
+
+			await exportHtml(config, options.output, config.selectWikis(options.wikis))
+			return 0
+		}
+	},
+
+	'export-wikidot': {
+		usage: 'export-wikidot [--wiki name] --output directory',
+		description: 'pack latest source of every stored page and its files into <wiki>.zip in layout of Wikidot site backup, for import into new site',
+
+		async run(config, options) {
+			if (options.output === undefined) {
+				throw new Error('export-wikidot requires --output')
+			}
+
+			await exportWikidot(config, options.output, config.selectWikis(options.wikis))
+			return 0
+		}
+	},
+
+	'export-git': {
+		usage: 'export-git [--wiki name] --output directory',
+		description: 'append stored page revisions newer than last exported one as commits to bare git repository <wiki>.git, in order of their dates',
+
+		async run(config, options) {
+			if (options.output === undefined) {
+				throw new Error('export-git requires --output')
+			}
+
+			await exportGit(config, options.output, config.selectWikis(options.wikis))
+			return 0
+		}
+	},
+
+	'export-forum': {
+		usage: 'export-forum [--wiki name] --output directory',
+		description: 'write every stored forum category as mbox for mail clients and as JSON lines with resolved posts',
+
+		async run(config, options) {
+			if (options.output === undefined) {
+				throw new Error('export-forum requires --output')
+			}
+
+			await exportForums(config, options.output, config.selectWikis(options.wikis))
+			return 0
+		}
+	},
+
+	'serve': {
+		usage: 'serve [--wiki name] [--listen address:port]',
+		description: `serve stored wikis over read-only HTTP API, on ${DEFAULT_VIEWER_ADDRESS} by default`,
+		listen: true,
+
+		async run(config, options) {
+			const userList = config.makeUserList()
+			const server = new ViewerServer(config, userList, config.selectWikis(options.wikis))
+
+			try {
+				await server.listen(options.listen)
+				await new Promise<void>(resolve => handleShutdown(resolve))
+				await server.close()
+			} finally {
+				userList.client.ratelimit?.stopTimer()
+			}
+
+			return 0
+		}
+	},
+}
+
+function usage() {
+	const lines = [
+		'Usage: wikicomma <command> [--config path] [options]',
+		'',
+		'Commands:'
+	]
+
+	for (const name in commands) {
+		lines.push(`  ${commands[name].usage}`)
+		lines.push(`      ${commands[name].description}`)
+	}
+
+	lines.push('')
+	lines.push('--config defaults to WIKICOMMA_CONFIG environment variable or config.json,')
+	lines.push('--wiki can be repeated or comma separated, all configured wikis are used if omitted.')
+
+	return lines.join('\n') + '\n'
+}
+
+export async function main(args: string[]) {
+	let options: CommandLine
+
+	try {
+		options = parseArguments(args)
+	} catch(err) {
+		process.stderr.write(`wikicomma: ${(err as Error).message}\n`)
+		process.stderr.write(usage())
+		return 1
+	}
+
+	if (options.help || options.command == '') {
+		process.stdout.write(usage())
+		return options.help ? 0 : 1
+	}
+
+	const command = commands[options.command]
+
+	if (command === undefined) {
+		process.stderr.write(`wikicomma: Unknown command ${options.command}\n`)
+		process.stderr.write(usage())
+		return 1
+	}
+
+	if (options.dryRun && !command.dryRun) {
+		process.stderr.write(`wikicomma: ${options.command} does not support --dry-run\n`)
+		return 1
+	}
+
+	if (options.only !== undefined && !command.only) {
+		process.stderr.write(`wikicomma: ${options.command} does not support --only\n`)
+		return 1
+	}
+
+	if (options.queue && !command.queue) {
+		process.stderr.write(`wikicomma: ${options.command} does not support --queue\n`)
+		return 1
+	}
+
+	if (options.at !== undefined && !command.at) {
+		process.stderr.write(`wikicomma: ${options.command} does not support --at\n`)
+		return 1
+	}
+
+	if (options.listen !== undefined && !command.listen) {
+		process.stderr.write(`wikicomma: ${options.command} does not support --listen\n`)
+		return 1
+	}
+
+	if (options.words && !command.words) {
+		process.stderr.write(`wikicomma: ${options.command} does not support --words\n`)
+		return 1
+	}
+
+	const config = await loadConfig(true, options.config)
+
+	try {
+		return await command.run(config, options, makeAgents())
+	} catch(err) {
+		process.stderr.write(`wikicomma: ${(err as Error).message}\n`)
+		return 1
+	}
+}
+
+if (require.main === module) {
+	main(process.argv.slice(2)).then(code => process.exit(code))
+}
@@ -0,0 +1,42 @@
+
+import { Request, Subscriber } from 'zeromq'
+import { loadConfig } from './DaemonConfig'
+import { DEFAULT_PUBLISH_ADDRESS, DEFAULT_REPLY_ADDRESS } from './ControlServer'
+
+// Minimal client for the control server
+// Usage: node control.js <list|status|start|abort|watch> [wiki] [config]
+
+(async function() {
+	const command = process.argv[2]
+	const wiki = process.argv[3]
+
+	if (command === undefined) {
+		process.stderr.write('Usage: node control.js <list|status|start|abort|watch> [wiki] [config]\n')
+		process.exit(1)
+	}
+
+	const config = await loadConfig(true, process.argv[4])
+
+	if (command == 'watch') {
+		const socket = new Subscriber()
+		socket.connect(config.control_server?.publish ?? DEFAULT_PUBLISH_ADDRESS)
+		socket.subscribe()
+
+		for await (const [topic, body] of socket) {
+			process.stdout.write(`${topic.toString('utf-8')} ${body.toString('utf-8')}\n`)
+		}
+
+		return
+	}
+
+	const socket = new Request({receiveTimeout: 10_000})
+	socket.connect(config.control_server?.reply ?? DEFAULT_REPLY_ADDRESS)
+
+	try {
+		await socket.send(JSON.stringify({command: command, wiki: wiki}))
+		const [reply] = await socket.receive()
+		process.stdout.write(JSON.stringify(JSON.parse(reply.toString('utf-8')), null, 4) + '\n')
+	} finally {
+		socket.close()
+	}
+})()
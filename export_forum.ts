@@ -0,0 +1,293 @@
+
+import { createWriteStream, promises } from 'fs'
+import { Writable } from 'stream'
+import { DaemonConfig, WikiEntry } from './DaemonConfig'
+import { LocalForumPost, LocalForumThread, WikiDot } from './WikiDot'
+import { WikiDotUserList } from './WikidotUserList'
+import { escape as escapeHtml } from 'html-escaper'
+import { writeToStream } from './storage'
+
+interface ResolvedUser {
+	id: number | null
+	// null if user is not known to stored user list
+	username: string | null
+}
+
+interface ResolvedRevision {
+	id: number
+	title: string
+	author: ResolvedUser
+	stamp: number
+	// null if revision is not stored
+	html: string | null
+}
+
+interface ResolvedPost {
+	id: number
+	title: string
+	poster: ResolvedUser
+	stamp: number
+	last_edit?: number
+	last_edit_by?: ResolvedUser
+	// latest version of post
+	html: string | null
+	revisions: ResolvedRevision[]
+	children: ResolvedPost[]
+}
+
+/**
+ * Line of <category>.jsonl
+ */
+export interface ResolvedThread {
+	category: number
+	category_title: string
+	id: number
+	title: string
+	description: string
+	started: number
+	started_by: ResolvedUser
+	sticky: boolean
+	locked: boolean
+	posts: ResolvedPost[]
+}
+
+async function resolveUser(userList: WikiDotUserList, id: number | string | null | undefined): Promise<ResolvedUser> {
+	return {id: typeof id == 'number' ? id : null, username: await userList.resolveUsername(id)}
+}
+
+async function resolvePosts(userList: WikiDotUserList, posts: LocalForumPost[], bodies: Map<number, Map<string, string>>): Promise<ResolvedPost[]> {
+	const result: ResolvedPost[] = []
+
+	for (const post of posts) {
+		const stored = bodies.get(post.id)
+		const revisions: ResolvedRevision[] = []
+
+		for (const revision of post.revisions) {
+			revisions.push({
+				id: revision.id,
+				title: revision.title,
+				author: await resolveUser(userList, revision.author),
+				stamp: revision.stamp,
+				html: stored?.get(revision.id.toString()) ?? null
+			})
+		}
+
+		result.push({
+			id: post.id,
+			title: post.title,
+			poster: await resolveUser(userList, post.poster),
+			stamp: post.stamp,
+			last_edit: post.lastEdit,
+			last_edit_by: post.lastEdit !== undefined ? await resolveUser(userList, post.lastEditBy) : undefined,
+			html: stored?.get('latest') ?? null,
+			revisions: revisions,
+			children: await resolvePosts(userList, post.children, bodies)
+		})
+	}
+
+	return result
+}
+
+/**
+ * Encodes header value as RFC 2047 encoded word if it is not plain ASCII
+ */
+function encodeHeader(value: string) {
+	value = value.replace(/[\r\n]+/g, ' ')
+	return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`
+}
+
+function formatAddress(user: ResolvedUser, host: string) {
+	const name = user.username ?? (user.id !== null ? `user #${user.id}` : 'deleted account')
+	return `${encodeHeader(name.replace(/["\\]/g, ''))} <${user.id ?? 'deleted'}@${host}>`
+}
+
+/**
+ * Date as in "From " separator line of mbox, e.g. Mon Sep 14 12:00:00 2020
+ */
+function asctime(stamp: number) {
+	const date = new Date(stamp)
+	const [weekday, day, month, year, time] = date.toUTCString().replace(',', '').split(' ')
+	return `${weekday} ${month} ${day.padStart(2, ' ')} ${time} ${year}`
+}
+
+interface MboxMessage {
+	id: string
+	references: string[]
+	from: ResolvedUser
+	stamp: number
+	subject: string
+	html: string
+	extraHeaders: string[]
+}
+
+function formatMessage(message: MboxMessage, host: string) {
+	const lines = [
+		`From ${message.from.id ?? 'deleted'}@${host} ${asctime(message.stamp)}`,
+		`Message-ID: <${message.id}@${host}>`,
+	]
+
+	if (message.references.length != 0) {
+		lines.push(`In-Reply-To: <${message.references[message.references.length - 1]}@${host}>`)
+		lines.push(`References: ${message.references.map(id => `<${id}@${host}>`).join(' ')}`)
+	}
+
+	lines.push(
+		`From: ${formatAddress(message.from, host)}`,
+		`Date: ${new Date(message.stamp).toUTCString()}`,
+		`Subject: ${encodeHeader(message.subject)}`,
+		...message.extraHeaders,
+		'MIME-Version: 1.0',
+		'Content-Type: text/html; charset=utf-8',
+		'Content-Transfer-Encoding: 8bit',
+		'',
+		// mboxrd quoting of lines which look like message separator
+		message.html.replace(/\r\n?/g, '\n').replace(/^(>*From )/gm, '>$1').replace(/\n*$/, ''),
+		'',
+		''
+	)
+
+	return lines.join('\n')
+}
+
+/**
+ * Ends stream and waits until it is closed
+ */
+function closeStream(stream: Writable) {
+	return new Promise<void>(resolve => {
+		if (stream.destroyed) {
+			resolve()
+			return
+		}
+
+		stream.once('close', resolve)
+		stream.end()
+	})
+}
+
+/**
+ * Writes thread as conversation: message describing thread, top level posts reply to it and
+ * children of posts reply to their parents
+ */
+async function writeMboxThread(output: Writable, thread: ResolvedThread, url: string) {
+	const host = new URL(url).hostname
+	const root = `thread-${thread.id}`
+	const link = `X-Wikidot-URL: ${url}/forum/t-${thread.id}`
+
+	await writeToStream(output, formatMessage({
+		id: root,
+		references: [],
+		from: thread.started_by,
+		stamp: thread.started,
+		subject: thread.title,
+		html: `<p>${escapeHtml(thread.description)}</p>`,
+		extraHeaders: [link]
+	}, host))
+
+	const walk = async (posts: ResolvedPost[], references: string[]) => {
+		for (const post of posts) {
+			const id = `post-${post.id}`
+
+			await writeToStream(output, formatMessage({
+				id: id,
+				references: references,
+				from: post.poster,
+				stamp: post.stamp,
+				subject: post.title != '' ? post.title : `Re: ${thread.title}`,
+				html: post.html ?? '<p><em>not stored</em></p>',
+				extraHeaders: [`${link}#post-${post.id}`]
+			}, host))
+
+			await walk(post.children, [...references, id])
+		}
+	}
+
+	await walk(thread.posts, [root])
+}
+
+/**
+ * Writes every forum category of wiki as <category>.mbox and <category>.jsonl into output
+ *
+ * @returns amount of exported threads
+ */
+export async function exportWikiForum(wiki: WikiDot, entry: WikiEntry, userList: WikiDotUserList, output: string) {
+	let exported = 0
+
+	await promises.mkdir(output, {recursive: true})
+
+	for (const category of Object.values(await wiki.readForumCategories())) {
+		const mbox = createWriteStream(`${output}/${category.id}.mbox`)
+		const jsonl = createWriteStream(`${output}/${category.id}.jsonl`)
+		// reported once streams are closed, instead of being thrown as uncaught
+		let failure: Error | null = null
+		const onError = (err: Error) => failure = failure ?? err
+
+		mbox.on('error', onError)
+		jsonl.on('error', onError)
+
+		try {
+			const threads: LocalForumThread[] = []
+
+			for (const id of await wiki.readForumThreadList(category.id)) {
+				const thread = await wiki.readForumThread(category.id, id)
+
+				if (thread !== null) {
+					threads.push(thread)
+				}
+			}
+
+			threads.sort((a, b) => a.started - b.started)
+
+			for (const thread of threads) {
+				const resolved: ResolvedThread = {
+					category: category.id,
+					category_title: category.title,
+					id: thread.id,
+					title: thread.title,
+					description: thread.description,
+					started: thread.started,
+					started_by: await resolveUser(userList, thread.startedUser),
+					sticky: thread.sticky,
+					locked: thread.isLocked,
+					posts: await resolvePosts(userList, thread.posts, await wiki.readPostRevisions(category.id, thread.id))
+				}
+
+				await writeMboxThread(mbox, resolved, entry.url)
+				await writeToStream(jsonl, JSON.stringify(resolved) + '\n')
+				exported++
+			}
+		} catch(err) {
+			throw failure ?? err
+		} finally {
+			await closeStream(mbox)
+			await closeStream(jsonl)
+		}
+
+		if (failure !== null) {
+			throw failure
+		}
+	}
+
+	return exported
+}
+
+/**
+ * Exports forums of every wiki into <outputDirectory>/<wiki>/, without accessing network
+ */
+export async function exportForums(config: DaemonConfig, outputDirectory: string, wikis: WikiEntry[] = config.wikis) {
+	const userList = config.makeUserList()
+
+	try {
+		for (const entry of wikis) {
+			const wiki = config.makeWiki(entry, null, false)
+
+			try {
+				const exported = await exportWikiForum(wiki, entry, userList, `${outputDirectory}/${entry.name}`)
+				process.stderr.write(`[${entry.name}] Exported ${exported} threads\n`)
+			} finally {
+				wiki.stopMetaSyncTimer()
+			}
+		}
+	} finally {
+		userList.client.ratelimit?.stopTimer()
+	}
+}
@@ -0,0 +1,227 @@
+
+import { promises } from 'fs'
+import { spawn } from 'child_process'
+import { Writable } from 'stream'
+import { DaemonConfig, WikiEntry } from './DaemonConfig'
+import { PageRevision, WikiDot } from './WikiDot'
+import { WikiDotUserList } from './WikidotUserList'
+import { readJson, writeJson, writeToStream } from './storage'
+
+/**
+ * Newest revision in repository, stored as wikicomma.json inside it
+ */
+interface GitExportState {
+	stamp: number
+	global_revision: number
+}
+
+interface QueuedRevision {
+	page: string
+	revision: PageRevision
+	// fast-import mark of blob with body, unset if body is not stored
+	mark?: number
+}
+
+function compareRevisions(a: PageRevision, b: PageRevision) {
+	return (a.stamp ?? 0) - (b.stamp ?? 0) || a.global_revision - b.global_revision
+}
+
+/**
+ * @param directory working directory of git, repository itself for bare repositories
+ */
+function runGit(directory: string, args: string[], input?: (stdin: Writable) => Promise<void>): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const child = spawn('git', args, {cwd: directory, stdio: ['pipe', 'pipe', 'pipe']})
+		const chunks: Buffer[] = []
+		const errors: Buffer[] = []
+
+		child.stdout.on('data', (data: Buffer) => chunks.push(data))
+		child.stderr.on('data', (data: Buffer) => errors.push(data))
+		child.on('error', reject)
+
+		child.on('close', (code) => {
+			if (code != 0) {
+				reject(new Error(`git ${args[0]} exited with code ${code}: ${Buffer.concat(errors).toString('utf-8').trim()}`))
+				return
+			}
+
+			resolve(Buffer.concat(chunks).toString('utf-8'))
+		})
+
+		if (input === undefined) {
+			child.stdin.end()
+			return
+		}
+
+		// failure of git is reported through close
+		child.stdin.on('error', () => {})
+		input(child.stdin).then(() => child.stdin.end(), err => {
+			child.kill()
+			reject(err)
+		})
+	})
+}
+
+async function writeData(stream: Writable, data: string) {
+	const buffer = Buffer.from(data, 'utf-8')
+	await writeToStream(stream, `data ${buffer.length}\n`)
+	await writeToStream(stream, buffer)
+	await writeToStream(stream, '\n')
+}
+
+function formatIdentity(name: string, email: string) {
+	return `${name.replace(/[<>\n]/g, '')} <${email.replace(/[<>\n\s]/g, '')}>`
+}
+
+/**
+ * Resolves author of revision to git identity through stored user list
+ */
+async function identityOf(userList: WikiDotUserList, author: number | string | null) {
+	if (author === null) {
+		return formatIdentity('(deleted account)', 'deleted@wikidot')
+	}
+
+	return formatIdentity(await userList.resolveUsername(author) ?? `user #${author}`, `${author}@wikidot`)
+}
+
+function commitMessage(page: string, revision: PageRevision) {
+	const commentary = revision.commentary?.trim() ?? ''
+	const lines = [commentary != '' ? `${page}: ${commentary}` : `${page}: revision ${revision.revision}`, '']
+
+	lines.push(`Revision: ${revision.revision}`)
+	lines.push(`Global-Revision: ${revision.global_revision}`)
+
+	if (revision.flags !== undefined && revision.flags != '') {
+		lines.push(`Flags: ${revision.flags}`)
+	}
+
+	return lines.join('\n') + '\n'
+}
+
+/**
+ * Appends stored revisions of every page newer than last exported one to bare repository as commits on master,
+ * in order of their dates. Each page is <page>.txt in root of repository, with ':' replaced with '_'
+ *
+ * Revisions fetched after newer ones were exported, and revisions with body not stored, are not exported
+ *
+ * @returns amount of written commits
+ */
+export async function exportWikiGit(wiki: WikiDot, userList: WikiDotUserList, repository: string, log: (message: string) => void) {
+	try {
+		await promises.access(`${repository}/HEAD`)
+	} catch(err) {
+		await promises.mkdir(repository, {recursive: true})
+		await runGit(repository, ['init', '--bare', '--quiet'])
+	}
+
+	const state = await readJson<GitExportState>(`${repository}/wikicomma.json`)
+	const sitemap = await wiki.readSiteMap()
+
+	if (sitemap === null) {
+		throw new Error(`Sitemap is missing, wiki was never backed up`)
+	}
+
+	const queue: QueuedRevision[] = []
+
+	for (const page of sitemap.keys()) {
+		const meta = await wiki.readPageMetadata(page)
+
+		if (meta === null) {
+			continue
+		}
+
+		for (const revision of meta.revisions) {
+			if (state === null || compareRevisions(revision, {revision: 0, author: null, ...state}) > 0) {
+				queue.push({page: meta.name, revision: revision})
+			}
+		}
+	}
+
+	if (queue.length == 0) {
+		return 0
+	}
+
+	log(`Exporting ${queue.length} revisions`)
+
+	// commits are appended to existing ones
+	let parent = await runGit(repository, ['rev-parse', '--verify', '--quiet', 'refs/heads/master']).then(() => true, () => false)
+	let written = 0
+	let last = null as PageRevision | null
+
+	await runGit(repository, ['fast-import', '--quiet', '--done'], async stdin => {
+		// bodies are written as blobs page by page first, so archive of each page is extracted only once
+		let marks = 0
+
+		for (let i = 0; i < queue.length;) {
+			const page = queue[i].page
+			const bodies = await wiki.readRevisions(page)
+
+			for (; i < queue.length && queue[i].page == page; i++) {
+				const body = bodies.get(queue[i].revision.revision)
+
+				if (body !== undefined) {
+					queue[i].mark = ++marks
+					await writeToStream(stdin, `blob\nmark :${marks}\n`)
+					await writeData(stdin, body)
+				}
+			}
+		}
+
+		queue.sort((a, b) => compareRevisions(a.revision, b.revision))
+
+		for (const {page, revision, mark} of queue) {
+			if (mark === undefined) {
+				log(`Revision ${revision.revision} of ${page} is not stored, skipping`)
+				continue
+			}
+
+			const identity = await identityOf(userList, revision.author)
+			const date = `${Math.floor((revision.stamp ?? 0) / 1000)} +0000`
+
+			await writeToStream(stdin, `commit refs/heads/master\n`)
+			await writeToStream(stdin, `author ${identity} ${date}\n`)
+			await writeToStream(stdin, `committer ${identity} ${date}\n`)
+			await writeData(stdin, commitMessage(page, revision))
+
+			if (parent) {
+				await writeToStream(stdin, `from refs/heads/master^0\n`)
+				parent = false
+			}
+
+			await writeToStream(stdin, `M 100644 :${mark} ${WikiDot.normalizeName(page)}.txt\n\n`)
+
+			written++
+			last = revision
+		}
+
+		await writeToStream(stdin, 'done\n')
+	})
+
+	if (last !== null) {
+		await writeJson(`${repository}/wikicomma.json`, {stamp: last.stamp ?? 0, global_revision: last.global_revision}, false)
+	}
+
+	return written
+}
+
+/**
+ * Exports page histories of every wiki into <outputDirectory>/<wiki>.git, without accessing network
+ */
+export async function exportGit(config: DaemonConfig, outputDirectory: string, wikis: WikiEntry[] = config.wikis) {
+	const userList = config.makeUserList()
+
+	try {
+		for (const entry of wikis) {
+			const wiki = config.makeWiki(entry, null, false)
+
+			try {
+				const written = await exportWikiGit(wiki, userList, `${outputDirectory}/${entry.name}.git`, message => process.stderr.write(`[${entry.name}] ${message}\n`))
+				process.stderr.write(`[${entry.name}] ${written} new commit(s)\n`)
+			} finally {
+				wiki.stopMetaSyncTimer()
+			}
+		}
+	} finally {
+		userList.client.ratelimit?.stopTimer()
+	}
+}
@@ -0,0 +1,398 @@
+
+import { promises } from 'fs'
+import { DaemonConfig, WikiEntry } from './DaemonConfig'
+import { LocalForumPost, LocalForumThread, PageMeta, WikiDot } from './WikiDot'
+import { WikiDotUserList } from './WikidotUserList'
+import { diffHunks, diffLines, splitLines } from './Diff'
+import { escape as escapeHtml } from 'html-escaper'
+import { MarkupContext, renderMarkup } from './Markup'
+
+const style = `
+body { font-family: sans-serif; max-width: 1100px; margin: 0 auto; padding: 1em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 0.2em 0.5em; text-align: left; vertical-align: top; }
+pre { white-space: pre-wrap; background: #f6f6f6; padding: 0.5em; }
+.tag { background: #eee; border-radius: 3px; padding: 0 0.3em; margin-right: 0.3em; }
+.hunk { color: #666; }
+.insert { background: #dfd; }
+.delete { background: #fdd; }
+.post { border-left: 3px solid #ccc; margin: 0.5em 0; padding-left: 0.8em; }
+.post-header { color: #555; font-size: 0.9em; }
+.post-content { border: none; width: 100%; }
+.page-content { border: 1px solid #ccc; padding: 0 1em; margin-bottom: 1em; }
+`
+
+function formatStamp(stamp?: number) {
+	return stamp !== undefined ? new Date(stamp).toISOString().replace('T', ' ').substring(0, 19) : ''
+}
+
+/**
+ * @param root relative path from page to root of wiki export
+ */
+function layout(title: string, root: string, body: string) {
+	return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${style}</style>
+</head>
+<body>
+<nav><a href="${root}index.html">Pages</a> | <a href="${root}forum/index.html">Forum</a></nav>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`
+}
+
+async function writePage(path: string, title: string, root: string, body: string) {
+	await promises.writeFile(path, layout(title, root, body))
+}
+
+async function authorHtml(userList: WikiDotUserList, id: number | string | null) {
+	return escapeHtml(await userList.resolveUsername(id) ?? (id === null ? '(account deleted)' : `user #${id}`))
+}
+
+function pageFileName(page: string) {
+	return encodeURIComponent(WikiDot.normalizeName(page))
+}
+
+/**
+ * Shared by every page of wiki, so included pages are read only once
+ */
+interface RenderOptions {
+	host: string
+	includes: Map<string, Promise<string | null>>
+}
+
+/**
+ * @param root relative path from rendered page to root of wiki export
+ */
+function markupContext(wiki: WikiDot, options: RenderOptions, meta: PageMeta, root: string): MarkupContext {
+	return {
+		page: meta.name,
+		rating: meta.rating,
+		host: options.host,
+		pageUrl: page => `${root}pages/${pageFileName(page)}.html`,
+		fileUrl: (page, file) => `${root}files/${pageFileName(page)}/${encodeURIComponent(file)}`,
+
+		include: page => {
+			let source = options.includes.get(page)
+
+			if (source === undefined) {
+				source = wiki.readLatestRevision(page).catch(() => null)
+				options.includes.set(page, source)
+			}
+
+			return source
+		}
+	}
+}
+
+function renderTags(tags?: string[]) {
+	return (tags ?? []).map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join('')
+}
+
+function renderDiff(previous: string, next: string) {
+	const hunks = diffHunks(diffLines(splitLines(previous), splitLines(next)))
+
+	if (hunks.length == 0) {
+		return '<p>Revisions are identical.</p>'
+	}
+
+	const lines: string[] = []
+
+	for (const hunk of hunks) {
+		lines.push(`<span class="hunk">@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@</span>`)
+
+		for (const op of hunk.ops) {
+			const line = escapeHtml(op.line)
+
+			if (op.type == 'insert') {
+				lines.push(`<span class="insert">+${line}</span>`)
+			} else if (op.type == 'delete') {
+				lines.push(`<span class="delete">-${line}</span>`)
+			} else {
+				lines.push(` ${line}`)
+			}
+		}
+	}
+
+	return `<pre>${lines.join('\n')}</pre>`
+}
+
+async function exportPage(wiki: WikiDot, userList: WikiDotUserList, options: RenderOptions, meta: PageMeta, output: string, discussion: string | null) {
+	const name = WikiDot.normalizeName(meta.name)
+	const bodies = await wiki.readRevisions(meta.name)
+	const stored = [...bodies.keys()].sort((a, b) => a - b)
+	const revisions = [...meta.revisions].sort((a, b) => b.revision - a.revision)
+
+	await promises.mkdir(`${output}/pages/${name}`, {recursive: true})
+
+	const rows: string[] = []
+
+	for (const revision of revisions) {
+		const body = bodies.get(revision.revision)
+		const previous = stored.filter(number => number < revision.revision).pop()
+		const author = await authorHtml(userList, revision.author)
+		const title = `${meta.title ?? meta.name}, revision ${revision.revision}`
+		const links: string[] = []
+
+		if (body !== undefined) {
+			await writePage(`${output}/pages/${name}/${revision.revision}.html`, title, '../../', `
+<p>By ${author} at ${formatStamp(revision.stamp)}. <a href="../${pageFileName(meta.name)}.html">Back to page</a></p>
+<div class="page-content">
+${await renderMarkup(body, markupContext(wiki, options, meta, '../../'))}
+</div>
+<details><summary>Source</summary>
+<pre>${escapeHtml(body)}</pre>
+</details>`)
+
+			links.push(`<a href="${pageFileName(meta.name)}/${revision.revision}.html">source</a>`)
+
+			if (previous !== undefined) {
+				await writePage(`${output}/pages/${name}/${revision.revision}.diff.html`, `${title}, changes since revision ${previous}`, '../../', `
+<p>By ${author} at ${formatStamp(revision.stamp)}. <a href="../${pageFileName(meta.name)}.html">Back to page</a></p>
+${renderDiff(bodies.get(previous)!, body)}`)
+
+				links.push(`<a href="${pageFileName(meta.name)}/${revision.revision}.diff.html">diff</a>`)
+			}
+		}
+
+		rows.push(`<tr><td>${revision.revision}</td><td>${formatStamp(revision.stamp)}</td><td>${author}</td><td>${escapeHtml(revision.flags ?? '')}</td><td>${escapeHtml(revision.commentary ?? '')}</td><td>${links.length != 0 ? links.join(' ') : 'not stored'}</td></tr>`)
+	}
+
+	const files: string[] = []
+
+	if (meta.files.length != 0) {
+		await promises.mkdir(`${output}/files/${name}`, {recursive: true})
+	}
+
+	for (const file of meta.files) {
+		// names are unique within page, as in local--files of Wikidot
+		const fileName = file.name.replace(/[\/\\]/g, '_')
+		let link = escapeHtml(file.name)
+
+		try {
+			await wiki.copyStoredFile(file, `${output}/files/${name}/${fileName}`)
+			link = `<a href="../files/${encodeURIComponent(name)}/${encodeURIComponent(fileName)}">${link}</a>`
+		} catch(err) {
+			link += ' (not stored)'
+		}
+
+		files.push(`<tr><td>${link}</td><td>${escapeHtml(file.mime)}</td><td>${escapeHtml(file.size)}</td><td>${await authorHtml(userList, file.author)}</td><td>${formatStamp(file.stamp)}</td></tr>`)
+	}
+
+	const latest = stored.length != 0 ? bodies.get(stored[stored.length - 1])! : null
+
+	await writePage(`${output}/pages/${name}.html`, meta.title ?? meta.name, '../', `
+${latest !== null ? `<div class="page-content">\n${await renderMarkup(latest, markupContext(wiki, options, meta, '../'))}\n</div>` : ''}
+<table>
+<tr><th>Name</th><td>${escapeHtml(meta.name)}</td></tr>
+<tr><th>Rating</th><td>${meta.rating ?? ''}</td></tr>
+<tr><th>Tags</th><td>${renderTags(meta.tags)}</td></tr>
+<tr><th>Parent</th><td>${meta.parent !== undefined ? `<a href="${pageFileName(meta.parent)}.html">${escapeHtml(meta.parent)}</a>` : ''}</td></tr>
+<tr><th>Locked</th><td>${meta.is_locked ? 'yes' : 'no'}</td></tr>
+${discussion !== null ? `<tr><th>Discussion</th><td><a href="${discussion}">thread</a></td></tr>` : ''}
+</table>
+<h2>History</h2>
+<table>
+<tr><th>Revision</th><th>Date</th><th>Author</th><th>Flags</th><th>Comment</th><th></th></tr>
+${rows.join('\n')}
+</table>
+${files.length != 0 ? `<h2>Files</h2>
+<table>
+<tr><th>Name</th><th>Type</th><th>Size</th><th>Uploaded by</th><th>Date</th></tr>
+${files.join('\n')}
+</table>` : ''}`)
+}
+
+/**
+ * Stored HTML of post is shown in sandboxed frame, so scripts and links written by posters do not run in the site
+ */
+function postContent(body: string) {
+	return `<iframe class="post-content" sandbox srcdoc="${escapeHtml(body)}"></iframe>`
+}
+
+async function renderPosts(userList: WikiDotUserList, posts: LocalForumPost[], bodies: Map<number, Map<string, string>>): Promise<string> {
+	const rendered: string[] = []
+
+	for (const post of posts) {
+		const stored = bodies.get(post.id)
+		const earlier: string[] = []
+
+		for (const revision of post.revisions) {
+			const body = stored?.get(revision.id.toString())
+
+			if (body !== undefined) {
+				earlier.push(`<div class="post-header">${escapeHtml(revision.title)}, by ${await authorHtml(userList, revision.author)} at ${formatStamp(revision.stamp)}</div>\n${postContent(body)}`)
+			}
+		}
+
+		rendered.push(`<div class="post" id="post-${post.id}">
+<div class="post-header"><strong>${escapeHtml(post.title)}</strong>, by ${await authorHtml(userList, post.poster)} at ${formatStamp(post.stamp)}${post.lastEdit !== undefined ? `, edited by ${await authorHtml(userList, post.lastEditBy ?? null)} at ${formatStamp(post.lastEdit)}` : ''}</div>
+${stored?.has('latest') ? postContent(stored.get('latest')!) : '<div><em>not stored</em></div>'}
+${earlier.length != 0 ? `<details><summary>Earlier revisions</summary>\n${earlier.join('\n')}\n</details>` : ''}
+${await renderPosts(userList, post.children, bodies)}
+</div>`)
+	}
+
+	return rendered.join('\n')
+}
+
+async function exportThread(wiki: WikiDot, userList: WikiDotUserList, category: number, thread: LocalForumThread, output: string) {
+	const bodies = await wiki.readPostRevisions(category, thread.id)
+
+	await writePage(`${output}/forum/${category}/${thread.id}.html`, thread.title, '../../', `
+<p>${escapeHtml(thread.description)}</p>
+<p>Started by ${await authorHtml(userList, thread.startedUser)} at ${formatStamp(thread.started)}${thread.isLocked ? ', locked' : ''}. <a href="../${category}.html">Back to category</a></p>
+${await renderPosts(userList, thread.posts, bodies)}`)
+}
+
+/**
+ * Renders forum of wiki
+ *
+ * @returns page id -> link to its discussion thread, relative to pages/ directory
+ */
+async function exportForum(name: string, wiki: WikiDot, userList: WikiDotUserList, output: string) {
+	const discussions = new Map<number, string>()
+	const categories = Object.values(await wiki.readForumCategories())
+	const categoryRows: string[] = []
+
+	await promises.mkdir(`${output}/forum`, {recursive: true})
+
+	for (const category of categories) {
+		const threads: LocalForumThread[] = []
+
+		for (const id of await wiki.readForumThreadList(category.id)) {
+			const thread = await wiki.readForumThread(category.id, id)
+
+			if (thread !== null) {
+				threads.push(thread)
+			}
+		}
+
+		threads.sort((a, b) => (b.last ?? b.started) - (a.last ?? a.started))
+		await promises.mkdir(`${output}/forum/${category.id}`, {recursive: true})
+
+		const threadRows: string[] = []
+
+		for (const thread of threads) {
+			try {
+				await exportThread(wiki, userList, category.id, thread, output)
+			} catch(err) {
+				process.stderr.write(`[${name}] Unable to export thread ${thread.id}: ${err}\n`)
+			}
+
+			discussions.set(thread.id, `../forum/${category.id}/${thread.id}.html`)
+			threadRows.push(`<tr><td>${thread.sticky ? 'Sticky: ' : ''}<a href="${category.id}/${thread.id}.html">${escapeHtml(thread.title)}</a></td><td>${await authorHtml(userList, thread.startedUser)}</td><td>${formatStamp(thread.started)}</td><td>${thread.postsNum}</td><td>${formatStamp(thread.last)}</td></tr>`)
+		}
+
+		await writePage(`${output}/forum/${category.id}.html`, category.title, '../', `
+<p>${escapeHtml(category.description)}</p>
+<table>
+<tr><th>Thread</th><th>Started by</th><th>Started</th><th>Posts</th><th>Last post</th></tr>
+${threadRows.join('\n')}
+</table>`)
+
+		categoryRows.push(`<tr><td><a href="${category.id}.html">${escapeHtml(category.title)}</a></td><td>${escapeHtml(category.description)}</td><td>${threads.length}</td><td>${category.posts}</td></tr>`)
+	}
+
+	await writePage(`${output}/forum/index.html`, 'Forum', '../', `
+<table>
+<tr><th>Category</th><th>Description</th><th>Threads</th><th>Posts</th></tr>
+${categoryRows.join('\n')}
+</table>`)
+
+	return discussions
+}
+
+/**
+ * Renders stored wiki as static site, without accessing network
+ */
+export async function exportWikiHtml(config: DaemonConfig, entry: WikiEntry, userList: WikiDotUserList, outputDirectory: string) {
+	const name = entry.name
+	const output = `${outputDirectory}/${name}`
+	const wiki = config.makeWiki(entry, null, false)
+	const options: RenderOptions = {host: new URL(entry.url).hostname, includes: new Map()}
+
+	try {
+		await promises.mkdir(`${output}/pages`, {recursive: true})
+
+		process.stderr.write(`[${name}] Exporting forum...\n`)
+		const discussions = await exportForum(name, wiki, userList, output)
+
+		const sitemap = await wiki.readSiteMap()
+		const pages: PageMeta[] = []
+
+		if (sitemap === null) {
+			process.stderr.write(`[${name}] Sitemap is missing, wiki was never backed up\n`)
+		} else {
+			process.stderr.write(`[${name}] Exporting ${sitemap.size} pages...\n`)
+
+			for (const page of sitemap.keys()) {
+				const meta = await wiki.readPageMetadata(page)
+
+				if (meta === null) {
+					continue
+				}
+
+				try {
+					await exportPage(wiki, userList, options, meta, output, meta.forum_thread !== undefined ? discussions.get(meta.forum_thread) ?? null : null)
+					pages.push(meta)
+				} catch(err) {
+					process.stderr.write(`[${name}] Unable to export ${page}: ${err}\n`)
+				}
+			}
+		}
+
+		const rows: string[] = []
+
+		for (const meta of pages.sort((a, b) => a.name.localeCompare(b.name))) {
+			const last = meta.revisions.reduce((last, revision) => Math.max(last, revision.stamp ?? 0), 0)
+			rows.push(`<tr><td><a href="pages/${pageFileName(meta.name)}.html">${escapeHtml(meta.name)}</a></td><td>${escapeHtml(meta.title ?? '')}</td><td>${renderTags(meta.tags)}</td><td>${meta.rating ?? ''}</td><td>${meta.revisions.length}</td><td>${last != 0 ? formatStamp(last) : ''}</td></tr>`)
+		}
+
+		await writePage(`${output}/index.html`, name, '', `
+<table>
+<tr><th>Page</th><th>Title</th><th>Tags</th><th>Rating</th><th>Revisions</th><th>Last edit</th></tr>
+${rows.join('\n')}
+</table>`)
+	} finally {
+		wiki.stopMetaSyncTimer()
+	}
+}
+
+/**
+ * Renders every wiki into its own directory under outputDirectory
+ */
+export async function exportHtml(config: DaemonConfig, outputDirectory: string, wikis: WikiEntry[] = config.wikis) {
+	const userList = config.makeUserList()
+
+	try {
+		await promises.mkdir(outputDirectory, {recursive: true})
+
+		for (const entry of wikis) {
+			await exportWikiHtml(config, entry, userList, outputDirectory)
+		}
+
+		await promises.writeFile(`${outputDirectory}/index.html`, `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Wikis</title>
+<style>${style}</style>
+</head>
+<body>
+<h1>Wikis</h1>
+<ul>
+${wikis.map(entry => `<li><a href="${encodeURIComponent(entry.name)}/index.html">${escapeHtml(entry.name)}</a></li>`).join('\n')}
+</ul>
+</body>
+</html>
+`)
+	} finally {
+		userList.client.ratelimit?.stopTimer()
+	}
+}
@@ -0,0 +1,26 @@
+
+import { DaemonConfig, WikiEntry } from "./DaemonConfig"
+import { Writable } from "stream"
+
+/**
+ * Writes metadata of every page in sitemap as JSON lines, each object has "wiki" field added
+ */
+export async function exportPages(config: DaemonConfig, output: Writable, wikis: WikiEntry[] = config.wikis) {
+	for (const entry of wikis) {
+		const wiki = config.makeWiki(entry, null, false)
+		const sitemap = await wiki.readSiteMap()
+
+		if (sitemap === null) {
+			process.stderr.write(`[${entry.name}] Sitemap is missing, skipping\n`)
+			continue
+		}
+
+		for (const page of sitemap.keys()) {
+			const metadata = await wiki.readPageMetadata(page)
+
+			if (metadata !== null && !output.write(JSON.stringify({wiki: entry.name, ...metadata}) + '\n')) {
+				await new Promise(resolve => output.once('drain', resolve))
+			}
+		}
+	}
+}
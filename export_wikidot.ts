@@ -0,0 +1,105 @@
+
+import { promises } from 'fs'
+import { DaemonConfig, WikiEntry } from './DaemonConfig'
+import { WikiDot } from './WikiDot'
+import { addZipFiles } from './7z-helper'
+
+interface BackupPage {
+	name: string
+	title?: string
+	parent?: string
+	tags: string[]
+	// newest revision, source of which is in source/
+	revision: number
+}
+
+/**
+ * Writes wiki in layout of Wikidot site backup into directory:
+ * source/<page>.txt with source of latest stored revision and files/<page>/<file name> with files of page,
+ * ':' in page names is replaced with '_' as in backups made by Wikidot.
+ *
+ * Wikidot backups do not carry titles, parents and tags, so they are listed in meta.json,
+ * to be set again after import
+ *
+ * @returns amount of exported pages
+ */
+export async function writeWikidotBackup(wiki: WikiDot, entry: WikiEntry, output: string) {
+	const sitemap = await wiki.readSiteMap()
+
+	if (sitemap === null) {
+		throw new Error(`Sitemap is missing, wiki was never backed up`)
+	}
+
+	await promises.mkdir(`${output}/source`, {recursive: true})
+	const pages: BackupPage[] = []
+
+	for (const page of sitemap.keys()) {
+		const meta = await wiki.readPageMetadata(page)
+
+		if (meta === null) {
+			continue
+		}
+
+		const body = await wiki.readLatestRevision(meta.name)
+
+		if (body === null) {
+			process.stderr.write(`[${entry.name}] Latest revision of ${meta.name} is not stored, skipping\n`)
+			continue
+		}
+
+		const name = WikiDot.normalizeName(meta.name)
+		await promises.writeFile(`${output}/source/${name}.txt`, body)
+
+		if (meta.files.length != 0) {
+			await promises.mkdir(`${output}/files/${name}`, {recursive: true})
+		}
+
+		for (const file of meta.files) {
+			try {
+				// names are unique within page, as in local--files of Wikidot
+				await wiki.copyStoredFile(file, `${output}/files/${name}/${file.name.replace(/[\/\\]/g, '_')}`)
+			} catch(err) {
+				process.stderr.write(`[${entry.name}] File ${file.name} of ${meta.name} is not stored, skipping\n`)
+			}
+		}
+
+		pages.push({
+			name: meta.name,
+			title: meta.title,
+			parent: meta.parent,
+			tags: meta.tags ?? [],
+			revision: meta.revisions.reduce((last, revision) => Math.max(last, revision.revision), 0)
+		})
+	}
+
+	pages.sort((a, b) => a.name.localeCompare(b.name))
+	await promises.writeFile(`${output}/meta.json`, JSON.stringify({name: entry.name, url: entry.url, pages: pages}, null, 4))
+
+	return pages.length
+}
+
+/**
+ * Packs every wiki into <outputDirectory>/<wiki>.zip in layout of Wikidot site backup, without accessing network
+ */
+export async function exportWikidot(config: DaemonConfig, outputDirectory: string, wikis: WikiEntry[] = config.wikis) {
+	await promises.mkdir(outputDirectory, {recursive: true})
+
+	for (const entry of wikis) {
+		const wiki = config.makeWiki(entry, null, false)
+		const output = `${outputDirectory}/${entry.name}`
+
+		try {
+			await promises.rm(output, {recursive: true, force: true})
+
+			process.stderr.write(`[${entry.name}] Exporting pages...\n`)
+			const count = await writeWikidotBackup(wiki, entry, output)
+
+			await promises.rm(`${output}.zip`, {force: true})
+			await addZipFiles(`${output}.zip`, `${output}/*`)
+			await promises.rm(output, {recursive: true, force: true})
+			process.stderr.write(`[${entry.name}] Exported ${count} pages into ${output}.zip\n`)
+		} finally {
+			wiki.stopMetaSyncTimer()
+		}
+	}
+}
@@ -21,13 +21,15 @@
 // ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR
 // OTHER DEALINGS IN THE SOFTWARE.
 
-import { loadConfig } from "./DaemonConfig"
-import { findMostRevision, ForumPost, LocalForumPost, WikiDot } from "./WikiDot"
+import { DaemonConfig, loadConfig, WikiEntry } from "./DaemonConfig"
+import { ForumPost, LocalForumPost } from "./WikiDot"
 import { parallel, parallelQueue } from "./worker"
 import {promises} from 'fs'
 
-(async function() {
-	const config = await loadConfig()
+/**
+ * Replaces usernames left in forum metadata by old versions with user IDs
+ */
+export async function fixForumUsernames(config: DaemonConfig, wikis: WikiEntry[] = config.wikis) {
 	const userList = config.makeUserList()
 	// old username -> user id
 	const remapped = new Map<string, number>()
@@ -35,15 +37,9 @@ import {promises} from 'fs'
 
 	await userList.loadMapping()
 
-	for (const {name, url} of config.wikis) {
-		const wiki = new WikiDot(
-			name,
-			url,
-			`${config.base_directory}/${name}`,
-			config.makeClient(8),
-			config.makeQueue(),
-			userList
-		)
+	for (const entry of wikis) {
+		const name = entry.name
+		const wiki = config.makeWiki(entry, userList)
 
 		const categories = await wiki.readForumCategories()
 
@@ -388,10 +384,16 @@ import {promises} from 'fs'
 	}
 
 	userList?.client.ratelimit?.stopTimer()
+}
 
-	process.stdout.write(`Exiting process in 10 seconds.\n`)
+if (require.main === module) {
+	(async function() {
+		await fixForumUsernames(await loadConfig(true, process.argv[3]))
 
-	setTimeout(() => {
-		process.exit(0)
-	}, 10000)
-})()
+		process.stdout.write(`Exiting process in 10 seconds.\n`)
+
+		setTimeout(() => {
+			process.exit(0)
+		}, 10000)
+	})()
+}
@@ -21,26 +21,22 @@
 // ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR
 // OTHER DEALINGS IN THE SOFTWARE.
 
-import { loadConfig } from "./DaemonConfig"
-import { findMostRevision, WikiDot } from "./WikiDot"
+import { DaemonConfig, loadConfig, WikiEntry } from "./DaemonConfig"
+import { findMostRevision } from "./WikiDot"
 import { parallel } from "./worker"
 
-(async function() {
-	const config = await loadConfig()
+/**
+ * Replaces usernames left in page revision lists by old versions with user IDs
+ */
+export async function fixRevisionUsernames(config: DaemonConfig, wikis: WikiEntry[] = config.wikis) {
 	const userList = config.makeUserList()
 	// old username -> user id
 	const remapped = new Map<string, number>()
 	const failureSays: string[] = []
 
-	for (const {name, url} of config.wikis) {
-		const wiki = new WikiDot(
-			name,
-			url,
-			`${config.base_directory}/${name}`,
-			config.makeClient(8),
-			config.makeQueue(),
-			userList
-		)
+	for (const entry of wikis) {
+		const name = entry.name
+		const wiki = config.makeWiki(entry, userList)
 
 		const sitemap = await wiki.readSiteMap()
 
@@ -147,4 +143,10 @@ import { parallel } from "./worker"
 	}
 
 	userList?.client.ratelimit?.stopTimer()
-})()
+}
+
+if (require.main === module) {
+	(async function() {
+		await fixRevisionUsernames(await loadConfig(true, process.argv[3]))
+	})()
+}
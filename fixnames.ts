@@ -2,52 +2,53 @@
 import {promises} from 'fs'
 import { reencodeComponent } from './WikiDot';
 
-(async function() {
-	const wikis = await promises.readdir('./storage/')
+async function reencodeDirectory(path: string, dryRun: boolean) {
+	const pages = await promises.readdir(path)
 
-	for (const wiki of wikis) {
-		try {
-			const pages = await promises.readdir(`./storage/${wiki}/files/`)
-
-			for (const page of pages) {
-				const fileList = await promises.readdir(`./storage/${wiki}/files/${page}`)
+	for (const page of pages) {
+		const fileList = await promises.readdir(`${path}/${page}`)
 
-				for (const file of fileList) {
-					const reencoded = reencodeComponent(file)
+		for (const file of fileList) {
+			const reencoded = reencodeComponent(file)
 
-					if (reencoded != file) {
-						console.log(`Renamed ${file} to ${reencoded}`)
-						await promises.rename(`./storage/${wiki}/files/${page}/${file}`, `./storage/${wiki}/files/${page}/${reencoded}`)
-					}
+			if (reencoded != file) {
+				if (dryRun) {
+					console.log(`Would rename ${file} to ${reencoded}`)
+					continue
 				}
+
+				console.log(`Renamed ${file} to ${reencoded}`)
+				await promises.rename(`${path}/${page}/${file}`, `${path}/${page}/${reencoded}`)
 			}
-		} catch(err) {
-			console.error(err)
 		}
 	}
-})();
-
-(async function() {
-	const wikis = await promises.readdir('./storage/')
+}
+
+/**
+ * Renames stored files and file metadata to names encoded by reencodeComponent
+ *
+ * @param wikis names of wikis (subdirectories of baseDirectory), all of them if not specified
+ */
+export async function fixFileNames(baseDirectory: string, wikis?: string[], dryRun = false) {
+	if (wikis === undefined) {
+		wikis = await promises.readdir(`${baseDirectory}/`)
+	}
 
 	for (const wiki of wikis) {
 		try {
-			const pages = await promises.readdir(`./storage/${wiki}/meta/files/`)
-
-			for (const page of pages) {
-				const fileList = await promises.readdir(`./storage/${wiki}/meta/files/${page}`)
-
-				for (const file of fileList) {
-					const reencoded = reencodeComponent(file)
+			await reencodeDirectory(`${baseDirectory}/${wiki}/files`, dryRun)
+		} catch(err) {
+			console.error(err)
+		}
 
-					if (reencoded != file) {
-						console.log(`Renamed ${file} to ${reencoded}`)
-						await promises.rename(`./storage/${wiki}/meta/files/${page}/${file}`, `./storage/${wiki}/meta/files/${page}/${reencoded}`)
-					}
-				}
-			}
+		try {
+			await reencodeDirectory(`${baseDirectory}/${wiki}/meta/files`, dryRun)
 		} catch(err) {
 			console.error(err)
 		}
 	}
-})();
+}
+
+if (require.main === module) {
+	fixFileNames('./storage')
+}
@@ -21,72 +21,7 @@
 // ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR
 // OTHER DEALINGS IN THE SOFTWARE.
 
-import { WikiDot, Lock } from './WikiDot'
-import { blockingQueue, parallel, PromiseQueue } from './worker'
-import { loadConfig } from './DaemonConfig'
+import { main } from './cli'
 
-import http = require('http')
-import https = require('https')
-
-(async function() {
-	const config = await loadConfig()
-
-	const httpsagent: https.Agent = new https.Agent({
-		keepAlive: true,
-		keepAliveMsecs: 5000,
-		maxSockets: 8
-	})
-
-	const httpagent: http.Agent = new http.Agent({
-		keepAlive: true,
-		keepAliveMsecs: 5000,
-		maxSockets: 8
-	})
-
-	const tasks: any[] = []
-	const lock = new Lock()
-	const userList = config.makeUserList(8, httpsagent, httpagent)
-
-	await userList.initialize()
-
-	for (const {name, url} of config.wikis) {
-		tasks.push(async function() {
-			try {
-				const client = config.makeClient(8, httpsagent, httpagent)
-
-				try {
-					const wiki = new WikiDot(
-						name,
-						url,
-						`${config.base_directory}/${name}`,
-						client,
-						config.makeQueue(),
-						userList,
-						true,
-						config.blacklist
-					)
-
-					await wiki.fetchToken()
-					await wiki.workLoop(lock)
-				} finally {
-					client.ratelimit?.stopTimer()
-				}
-			} catch(err) {
-				console.error(`Fetching wiki ${name} failed`)
-				console.error(err)
-			}
-		})
-	}
-
-	try {
-		await parallel(blockingQueue(tasks), 3)
-	} finally {
-		userList.client.ratelimit?.stopTimer()
-	}
-
-	console.log('Shutting down in 10 seconds.')
-
-	setTimeout(() => {
-		process.exit(0)
-	}, 10_000)
-})()
+// node index.js without arguments backs up every configured wiki
+main(process.argv.length > 2 ? process.argv.slice(2) : ['backup']).then(code => process.exit(code))
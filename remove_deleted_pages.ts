@@ -21,23 +21,21 @@
 // ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR
 // OTHER DEALINGS IN THE SOFTWARE.
 
-import { loadConfig } from "./DaemonConfig"
+import { DaemonConfig, loadConfig, WikiEntry } from "./DaemonConfig"
 import { WikiDot } from "./WikiDot"
 import {promises} from 'fs'
 
-(async function() {
-	const config = await loadConfig()
+/**
+ * Removes metadata, revisions and files of pages which are not present in sitemap
+ *
+ * @param dryRun only print pages which would be removed
+ */
+export async function removeDeletedPages(config: DaemonConfig, wikis: WikiEntry[] = config.wikis, dryRun = false) {
 	const filenameMatcher = /^(\S+)\.json$/
 
-	for (const {name, url} of config.wikis) {
-		const wiki = new WikiDot(
-			name,
-			url,
-			`${config.base_directory}/${name}`,
-			null,
-			null,
-			null
-		)
+	for (const entry of wikis) {
+		const name = entry.name
+		const wiki = config.makeWiki(entry, null, false)
 
 		const sitemap = await wiki.readSiteMap()
 
@@ -57,6 +55,11 @@ import {promises} from 'fs'
 
 				if (matched !== null) {
 					if (!collected.includes(matched[1])) {
+						if (dryRun) {
+							process.stdout.write(`[${name}] Would delete ${matched[1]}\n`)
+							continue
+						}
+
 						process.stdout.write(`[${name}] Deleting ${matched[1]}\n`)
 						await wiki.markPageRemoved(matched[1])
 					}
@@ -64,6 +67,11 @@ import {promises} from 'fs'
 			}
 		}
 	}
+}
 
-	process.exit(0)
-})()
+if (require.main === module) {
+	(async function() {
+		await removeDeletedPages(await loadConfig(true, process.argv[3]))
+		process.exit(0)
+	})()
+}
@@ -0,0 +1,117 @@
+
+import { PageRevision, WikiDot } from "./WikiDot"
+import { WikiDotUserList } from "./WikidotUserList"
+import { diffHunks, diffLines, diffWords, DiffHunk, formatHunkHeader, formatUnified, formatWordDiff, splitLines } from "./Diff"
+
+export interface RevisionSide {
+	revision: number
+	global_revision: number
+	author: number | null
+	// resolved through stored user list, null if user is not known
+	author_name: string | null
+	stamp?: number
+	flags?: string
+	commentary?: string
+}
+
+export interface RevisionDiff {
+	page: string
+	old: RevisionSide
+	new: RevisionSide
+	hunks: DiffHunk[]
+}
+
+async function describeRevision(revision: PageRevision, userList: WikiDotUserList): Promise<RevisionSide> {
+	return {
+		revision: revision.revision,
+		global_revision: revision.global_revision,
+		author: typeof revision.author == 'number' ? revision.author : null,
+		author_name: await userList.resolveUsername(revision.author),
+		stamp: revision.stamp,
+		flags: revision.flags,
+		commentary: revision.commentary
+	}
+}
+
+/**
+ * Compares two stored revisions of page, without accessing network
+ *
+ * @param userList used to resolve authors
+ * @throws Error if page or either of revisions is not stored
+ */
+export async function diffRevisions(wiki: WikiDot, page: string, from: number, to: number, userList: WikiDotUserList): Promise<RevisionDiff> {
+	const meta = await wiki.readPageMetadata(page)
+
+	if (meta === null) {
+		throw new Error(`Page ${page} is not stored`)
+	}
+
+	const sides: RevisionSide[] = []
+	const bodies: string[] = []
+
+	for (const number of [from, to]) {
+		const revision = meta.revisions.find(revision => revision.revision == number)
+
+		if (revision === undefined) {
+			throw new Error(`${page} has no revision ${number}`)
+		}
+
+		const body = await wiki.readRevision(page, number)
+
+		if (body === null) {
+			throw new Error(`Revision ${number} of ${page} is not stored`)
+		}
+
+		sides.push(await describeRevision(revision, userList))
+		bodies.push(body)
+	}
+
+	return {
+		page: meta.name,
+		old: sides[0],
+		new: sides[1],
+		hunks: diffHunks(diffLines(splitLines(bodies[0]), splitLines(bodies[1])))
+	}
+}
+
+function describeSide(page: string, side: RevisionSide) {
+	let line = `${page} revision ${side.revision} by ${side.author_name ?? (side.author !== null ? `user #${side.author}` : 'deleted account')}`
+
+	if (side.stamp !== undefined) {
+		line += ` at ${new Date(side.stamp).toISOString()}`
+	}
+
+	if (side.flags !== undefined && side.flags != '') {
+		line += ` [${side.flags}]`
+	}
+
+	if (side.commentary !== undefined && side.commentary != '') {
+		line += `: ${side.commentary.replace(/\s+/g, ' ')}`
+	}
+
+	return line
+}
+
+/**
+ * Formats diff as unified diff, or as word level diff of every hunk if words is true
+ */
+export function formatRevisionDiff(diff: RevisionDiff, words = false) {
+	const oldName = describeSide(diff.page, diff.old)
+	const newName = describeSide(diff.page, diff.new)
+
+	if (!words) {
+		return formatUnified(diff.hunks, oldName, newName)
+	}
+
+	const lines = [`--- ${oldName}`, `+++ ${newName}`]
+
+	for (const hunk of diff.hunks) {
+		const oldText = hunk.ops.filter(op => op.type != 'insert').map(op => op.line).join('\n')
+		const newText = hunk.ops.filter(op => op.type != 'delete').map(op => op.line).join('\n')
+
+		lines.push(formatHunkHeader(hunk))
+		lines.push(formatWordDiff(diffWords(oldText, newText)))
+	}
+
+	return lines.join('\n') + '\n'
+}
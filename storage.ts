@@ -0,0 +1,195 @@
+
+import { promises } from 'fs'
+import { createHash } from 'crypto'
+import { Writable } from 'stream'
+
+/**
+ * File exists, but does not contain valid JSON (e.g. it got truncated by crash or full disk)
+ */
+export class CorruptFileError extends Error {
+	constructor(public readonly path: string, reason: any) {
+		super(`${path} is corrupt: ${reason instanceof Error ? reason.message : reason}`)
+	}
+}
+
+let tempCounter = 0
+
+function isMissing(err: any) {
+	return (err as NodeJS.ErrnoException)?.code == 'ENOENT'
+}
+
+/**
+ * Replaces file so it contains either old or new data, but never something in between:
+ * data is written to temporary file, flushed to disk and renamed over the target.
+ *
+ * @param backup whenever to keep previous version of file as `<path>.bak`
+ */
+export async function writeFileAtomic(path: string, data: string | Buffer, backup = true) {
+	const temp = `${path}.${process.pid}.${tempCounter++}.tmp`
+	const handle = await promises.open(temp, 'w')
+
+	try {
+		await handle.writeFile(data)
+		await handle.sync()
+	} catch(err) {
+		await handle.close()
+		await promises.unlink(temp).catch(() => {})
+		throw err
+	}
+
+	await handle.close()
+
+	if (backup) {
+		try {
+			await promises.unlink(`${path}.bak`)
+		} catch(err) {
+			if (!isMissing(err)) {
+				throw err
+			}
+		}
+
+		try {
+			await promises.link(path, `${path}.bak`)
+		} catch(err) {
+			if (!isMissing(err)) {
+				// filesystem without hard links
+				await promises.copyFile(path, `${path}.bak`)
+			}
+		}
+	}
+
+	try {
+		await promises.rename(temp, path)
+	} catch(err) {
+		await promises.unlink(temp).catch(() => {})
+		throw err
+	}
+
+	// make rename itself durable, not supported on every platform
+	try {
+		const slash = path.lastIndexOf('/')
+		const directory = await promises.open(slash == -1 ? '.' : path.substring(0, slash + 1), 'r')
+
+		try {
+			await directory.sync()
+		} finally {
+			await directory.close()
+		}
+	} catch(err) {
+
+	}
+}
+
+/**
+ * Hex encoded SHA-256 of data, strings are hashed as UTF-8
+ */
+export function sha256(data: string | Buffer) {
+	return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Places copy of file at destination, as hard link if possible
+ */
+export async function linkOrCopyFile(from: string, to: string) {
+	await promises.rm(to, {force: true})
+
+	try {
+		await promises.link(from, to)
+	} catch(err) {
+		await promises.copyFile(from, to)
+	}
+}
+
+/**
+ * Writes data into stream, waiting for it to drain if its buffer is full
+ *
+ * @throws Error if stream is destroyed, or fails while waiting
+ */
+export async function writeToStream(stream: Writable, data: string | Buffer) {
+	if (stream.destroyed) {
+		throw new Error(`Stream is destroyed`)
+	}
+
+	if (!stream.write(data)) {
+		await new Promise<void>((resolve, reject) => {
+			const cleanup = () => {
+				stream.off('drain', onDrain)
+				stream.off('error', onError)
+				stream.off('close', onClose)
+			}
+
+			const onDrain = () => {
+				cleanup()
+				resolve()
+			}
+
+			const onError = (err: Error) => {
+				cleanup()
+				reject(err)
+			}
+
+			const onClose = () => {
+				cleanup()
+				reject(new Error(`Stream got closed before data was written`))
+			}
+
+			stream.once('drain', onDrain)
+			stream.once('error', onError)
+			stream.once('close', onClose)
+		})
+	}
+}
+
+export async function writeJson(path: string, value: any, backup = true) {
+	await writeFileAtomic(path, JSON.stringify(value, null, 4), backup)
+}
+
+async function parseJsonFile<T>(path: string): Promise<T | null> {
+	let read: string
+
+	try {
+		read = await promises.readFile(path, {encoding: 'utf-8'})
+	} catch(err) {
+		if (isMissing(err)) {
+			return null
+		}
+
+		throw err
+	}
+
+	try {
+		return JSON.parse(read) as T
+	} catch(err) {
+		throw new CorruptFileError(path, err)
+	}
+}
+
+/**
+ * Reads JSON file
+ *
+ * @param onCorrupt if specified, corrupt file is reported through it and previous version (`<path>.bak`)
+ * is returned instead, if it is intact. Otherwise CorruptFileError is thrown
+ * @returns parsed contents, or null if file does not exist (or it is corrupt and there is no intact backup)
+ */
+export async function readJson<T>(path: string, onCorrupt?: (err: CorruptFileError) => void): Promise<T | null> {
+	try {
+		return await parseJsonFile<T>(path)
+	} catch(err) {
+		if (!(err instanceof CorruptFileError) || onCorrupt === undefined) {
+			throw err
+		}
+
+		onCorrupt(err)
+	}
+
+	try {
+		return await parseJsonFile<T>(`${path}.bak`)
+	} catch(err) {
+		if (err instanceof CorruptFileError) {
+			onCorrupt(err)
+			return null
+		}
+
+		throw err
+	}
+}
@@ -0,0 +1,53 @@
+
+import { strict as assert } from 'assert'
+import { validateConfig } from '../ConfigSchema'
+
+function config(extra: any = {}) {
+	return {
+		base_directory: '/storage',
+		wikis: [{name: 'test', url: 'https://test.wikidot.com'}],
+		...extra
+	}
+}
+
+describe('ConfigSchema', () => {
+	it('accepts minimal config', () => {
+		assert.deepEqual(validateConfig(config()), {errors: [], warnings: []})
+	})
+
+	it('accepts null proxies', () => {
+		const result = validateConfig(config({http_proxy: null, socks_proxy: null}))
+		assert.deepEqual(result.errors, [])
+	})
+
+	it('reports values of wrong type', () => {
+		assert.ok(validateConfig(null).errors.some(error => error.includes('must be an object')))
+
+		const result = validateConfig(config({http_proxy: 'localhost', delay_ms: -1}))
+		assert.equal(result.errors.length, 2)
+		assert.ok(result.errors.some(error => error.startsWith('http_proxy')))
+		assert.ok(result.errors.some(error => error.startsWith('delay_ms')))
+	})
+
+	it('reports missing required fields', () => {
+		assert.ok(validateConfig({wikis: []}).errors.some(error => error.includes('base_directory')))
+	})
+
+	it('reports invalid page rules and schedules', () => {
+		const result = validateConfig(config({page_rules: ['/(/'], schedule: {cron: '* * *'}}))
+
+		assert.ok(result.errors.some(error => error.startsWith('page_rules[0]')))
+		assert.ok(result.errors.some(error => error.startsWith('schedule.cron')))
+	})
+
+	it('reports wikis sharing name and warns about wikis sharing url', () => {
+		const result = validateConfig(config({wikis: [
+			{name: 'a', url: 'https://test.wikidot.com'},
+			{name: 'a', url: 'https://other.wikidot.com'},
+			{name: 'b', url: 'https://test.wikidot.com/'},
+		]}))
+
+		assert.ok(result.errors.some(error => error.includes('wikis[1].name duplicates name of wikis[0]')))
+		assert.ok(result.warnings.some(warning => warning.startsWith('wikis[2]')))
+	})
+})
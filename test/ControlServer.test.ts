@@ -0,0 +1,110 @@
+
+import { strict as assert } from 'assert'
+import { Request } from 'zeromq'
+import { ControlRequest, ControlResponse, ControlServer } from '../ControlServer'
+import { DaemonConfig } from '../DaemonConfig'
+import { HTTPClient } from '../HTTPClient'
+import { WikiDotUserList } from '../WikidotUserList'
+import { memoryWiki, SitemapClient } from './helpers'
+
+/**
+ * Sitemap client which holds every request until released, and fails ajax requests
+ */
+class HeldClient extends SitemapClient {
+	public release!: () => void
+	private readonly held = new Promise<void>(resolve => this.release = resolve)
+
+	public get(url: string): Promise<Buffer> {
+		return this.held.then(() => super.get(url))
+	}
+
+	public post(url: string): Promise<Buffer> {
+		return Promise.reject(new Error(`Not reachable: ${url}`))
+	}
+}
+
+describe('ControlServer', () => {
+	let server: ControlServer
+	let listening: Promise<void>
+	let socket: Request
+	let client: HeldClient
+
+	async function request(body: ControlRequest): Promise<ControlResponse> {
+		await socket.send(JSON.stringify(body))
+		const [reply] = await socket.receive()
+		return JSON.parse(reply.toString('utf-8'))
+	}
+
+	beforeEach(async () => {
+		const config = new DaemonConfig({
+			base_directory: 'storage',
+			wikis: [{name: 'test', url: 'https://test.wikidot.com'}, {name: 'other', url: 'https://other.wikidot.com', enabled: false}],
+			content: ['pages'],
+			control_server: {reply: 'inproc://control-test-reply', publish: 'inproc://control-test-publish'},
+		})
+
+		client = new HeldClient([])
+		const {wiki} = memoryWiki({client: client})
+
+		server = new ControlServer(config, new WikiDotUserList('storage/_users', new HTTPClient(1)))
+		server['wikis'].set('test', wiki)
+		server['log'] = () => {}
+		server['error'] = () => {}
+		listening = server.listen()
+
+		socket = new Request()
+		socket.connect(server.replyAddress)
+	})
+
+	afterEach(async () => {
+		client.release()
+		socket.close()
+		await server.close()
+		await listening
+	})
+
+	it('lists configured wikis', async () => {
+		assert.deepEqual(await request({command: 'list'}), {status: 'ok', wikis: [
+			{name: 'test', url: 'https://test.wikidot.com', enabled: true},
+			{name: 'other', url: 'https://other.wikidot.com', enabled: false},
+		]})
+	})
+
+	it('reports status of wikis', async () => {
+		const response = await request({command: 'status'})
+
+		assert.equal(response.status, 'ok')
+		assert.deepEqual(response.wikis.map((wiki: {name: string, state: string}) => [wiki.name, wiki.state]), [['test', 'idle'], ['other', 'idle']])
+		assert.deepEqual(await request({command: 'status', wiki: 'missing'}), {status: 'error', message: 'Unknown wiki missing'})
+	})
+
+	it('starts and aborts backup of wiki', async () => {
+		const started = await request({command: 'start', wiki: 'test'})
+
+		assert.equal(started.status, 'ok')
+		assert.equal(started.wiki.name, 'test')
+		assert.deepEqual(await request({command: 'start', wiki: 'test'}), {status: 'error', message: 'Backup of test is already running'})
+
+		let status: ControlResponse
+
+		do {
+			status = await request({command: 'status', wiki: 'test'})
+		} while (status.wiki.state == 'idle')
+
+		assert.equal(status.wiki.state, 'running')
+		assert.deepEqual(await request({command: 'abort', wiki: 'test'}), {status: 'ok'})
+		client.release()
+
+		do {
+			status = await request({command: 'status', wiki: 'test'})
+		} while (status.wiki.state == 'running')
+
+		assert.equal(status.wiki.state, 'aborted')
+		assert.deepEqual(await request({command: 'abort', wiki: 'test'}), {status: 'error', message: 'Backup of test is not running'})
+	})
+
+	it('rejects malformed requests', async () => {
+		assert.deepEqual(await request({command: 'start'}), {status: 'error', message: 'No wiki specified'})
+		assert.deepEqual(await request({command: 'unknown'} as unknown as ControlRequest), {status: 'error', message: 'Unknown command unknown'})
+	})
+})
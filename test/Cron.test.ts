@@ -0,0 +1,42 @@
+
+import { strict as assert } from 'assert'
+import { CronExpression } from '../Cron'
+
+describe('CronExpression', () => {
+	it('finds next matching minute', () => {
+		const cron = new CronExpression('*/15 * * * *')
+		assert.deepEqual(cron.next(new Date(2024, 0, 1, 10, 7, 30)), new Date(2024, 0, 1, 10, 15))
+		assert.deepEqual(cron.next(new Date(2024, 0, 1, 10, 45)), new Date(2024, 0, 1, 11, 0))
+	})
+
+	it('rolls over days and months', () => {
+		const cron = new CronExpression('30 2 1 * *')
+		assert.deepEqual(cron.next(new Date(2024, 0, 15, 12, 0)), new Date(2024, 1, 1, 2, 30))
+		assert.deepEqual(cron.next(new Date(2024, 11, 2, 0, 0)), new Date(2025, 0, 1, 2, 30))
+	})
+
+	it('supports ranges, lists and sunday as 7', () => {
+		// 2024-01-06 is saturday
+		const cron = new CronExpression('0 9-17/4 * * 1,7')
+		assert.deepEqual(cron.next(new Date(2024, 0, 6, 12, 0)), new Date(2024, 0, 7, 9, 0))
+		assert.deepEqual(cron.next(new Date(2024, 0, 7, 9, 0)), new Date(2024, 0, 7, 13, 0))
+		assert.deepEqual(cron.next(new Date(2024, 0, 7, 17, 0)), new Date(2024, 0, 8, 9, 0))
+	})
+
+	it('matches either day of month or day of week when both are restricted', () => {
+		// 2024-01-03 is wednesday
+		const cron = new CronExpression('0 0 10 * 5')
+		assert.deepEqual(cron.next(new Date(2024, 0, 3, 12, 0)), new Date(2024, 0, 5, 0, 0))
+		assert.deepEqual(cron.next(new Date(2024, 0, 7, 12, 0)), new Date(2024, 0, 10, 0, 0))
+	})
+
+	it('rejects malformed expressions', () => {
+		assert.throws(() => new CronExpression('* * * *'), /5 fields/)
+		assert.throws(() => new CronExpression('60 * * * *'))
+		assert.throws(() => new CronExpression('* * * * mon'))
+	})
+
+	it('reports expressions which never match', () => {
+		assert.throws(() => new CronExpression('0 0 31 2 *').next(new Date(2024, 0, 1)), /never matches/)
+	})
+})
@@ -0,0 +1,24 @@
+
+import { strict as assert } from 'assert'
+import { DaemonConfig } from '../DaemonConfig'
+
+describe('DaemonConfig', () => {
+	const proxy = {address: '127.0.0.1', port: 8080}
+
+	it('applies proxies of wiki over global ones', () => {
+		const config = new DaemonConfig({
+			base_directory: 'storage',
+			http_proxy: proxy,
+			socks_proxy: proxy,
+			wikis: [
+				{name: 'inherits', url: 'https://a.wikidot.com'},
+				{name: 'direct', url: 'https://b.wikidot.com', http_proxy: null, socks_proxy: null},
+			],
+		})
+
+		const [inherits, direct] = config.wikis.map(entry => config.wikiOptions(entry))
+
+		assert.deepEqual([inherits.http_proxy, inherits.socks_proxy], [proxy, proxy])
+		assert.deepEqual([direct.http_proxy, direct.socks_proxy], [null, null])
+	})
+})
@@ -0,0 +1,41 @@
+
+import { strict as assert } from 'assert'
+import { diffHunks, diffLines, diffWords, formatUnified, formatWordDiff, splitLines } from '../Diff'
+
+describe('Diff', () => {
+	it('splits lines without trailing empty line', () => {
+		assert.deepEqual(splitLines('a\r\nb\n'), ['a', 'b'])
+		assert.deepEqual(splitLines(''), [])
+	})
+
+	it('finds shortest line diff', () => {
+		const ops = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd'])
+
+		assert.deepEqual(ops.map(op => `${op.type[0]}${op.line}`), ['ea', 'db', 'ec', 'ix', 'ed'])
+	})
+
+	it('reports everything as changed when texts differ too much', () => {
+		const ops = diffLines(['a', 'b', 'c'], ['x', 'y', 'z'], 1)
+
+		assert.deepEqual(ops.map(op => `${op.type[0]}${op.line}`), ['da', 'db', 'dc', 'ix', 'iy', 'iz'])
+	})
+
+	it('formats unified diff with context', () => {
+		const old = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10']
+		const hunks = diffHunks(diffLines(old, old.map(line => line == '5' ? 'five' : line)), 2)
+
+		assert.equal(hunks.length, 1)
+		assert.equal(formatUnified(hunks, 'old', 'new'), '--- old\n+++ new\n@@ -3,5 +3,5 @@\n 3\n 4\n-5\n+five\n 6\n 7\n')
+	})
+
+	it('splits far apart changes into separate hunks', () => {
+		const old = Array.from({length: 20}, (_, i) => `${i}`)
+		const changed = old.map(line => line == '1' || line == '18' ? `${line}!` : line)
+
+		assert.deepEqual(diffHunks(diffLines(old, changed), 3).map(hunk => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines]), [[1, 5, 1, 5], [16, 5, 16, 5]])
+	})
+
+	it('formats word diff', () => {
+		assert.equal(formatWordDiff(diffWords('the quick fox', 'the slow fox')), 'the [-quick-]{+slow+} fox')
+	})
+})
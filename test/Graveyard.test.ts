@@ -0,0 +1,57 @@
+
+import { strict as assert } from 'assert'
+import { Graveyard } from '../Graveyard'
+import { MemoryBackend } from '../StorageBackend'
+
+describe('Graveyard', () => {
+	let storage: MemoryBackend
+	let graveyard: Graveyard
+
+	beforeEach(async () => {
+		storage = new MemoryBackend()
+		graveyard = new Graveyard(storage)
+
+		await storage.mkdir('meta/pages')
+		await storage.mkdir('pages/foo')
+		await storage.writeFile('meta/pages/foo.json', '{}')
+		await storage.writeFile('pages/foo/0.txt', 'body')
+	})
+
+	it('moves existing paths into dated entry', async () => {
+		const tombstone = await graveyard.bury('page', 'foo', 'foo', ['meta/pages/foo.json', 'pages/foo', 'files/foo'])
+
+		assert.notEqual(tombstone, null)
+		assert.match(tombstone!.id, /^\d{4}-\d{2}-\d{2}\/\d+-page-foo$/)
+		assert.deepEqual(tombstone!.paths, ['meta/pages/foo.json', 'pages/foo'])
+		assert.equal(await storage.readTextFile(`graveyard/${tombstone!.id}/pages/foo/0.txt`), 'body')
+		await assert.rejects(storage.stat('pages/foo'))
+		assert.deepEqual((await graveyard.list()).map(entry => entry.id), [tombstone!.id])
+	})
+
+	it('creates no entry when nothing exists', async () => {
+		assert.equal(await graveyard.bury('page', 'bar', 'bar', ['pages/bar']), null)
+		assert.deepEqual(await graveyard.list(), [])
+	})
+
+	it('restores entry to original place', async () => {
+		const tombstone = await graveyard.bury('page', 'foo', 'foo', ['meta/pages/foo.json', 'pages/foo'])
+
+		await graveyard.restore(tombstone!.id)
+
+		assert.equal(await storage.readTextFile('pages/foo/0.txt'), 'body')
+		assert.deepEqual(await graveyard.list(), [])
+	})
+
+	it('refuses to overwrite restored paths', async () => {
+		const tombstone = await graveyard.bury('page', 'foo', 'foo', ['pages/foo'])
+		await storage.mkdir('pages/foo')
+
+		await assert.rejects(graveyard.restore(tombstone!.id), /already exists/)
+		assert.equal(await storage.readTextFile(`graveyard/${tombstone!.id}/pages/foo/0.txt`), 'body')
+	})
+
+	it('rejects ids outside of graveyard', async () => {
+		await assert.rejects(graveyard.read('../meta'), /Invalid tombstone id/)
+		await assert.rejects(graveyard.restore('2020-01-01/../../pages'), /Invalid tombstone id/)
+	})
+})
@@ -0,0 +1,48 @@
+
+import { strict as assert } from 'assert'
+import { MarkupContext, normalizePageName, renderMarkup } from '../Markup'
+
+function context(extra: Partial<MarkupContext> = {}): MarkupContext {
+	return {
+		page: 'start',
+		pageUrl: page => `${page}.html`,
+		fileUrl: (page, file) => `files/${page}/${file}`,
+		...extra
+	}
+}
+
+describe('Markup', () => {
+	it('normalizes page names', () => {
+		assert.equal(normalizePageName('Component: Foo Bar'), 'component:foo-bar')
+		assert.equal(normalizePageName('  SCP-173 '), 'scp-173')
+	})
+
+	it('renders lists', async () => {
+		assert.equal(await renderMarkup('* one\n* two', context()), '<ul><li>one</li><li>two</li></ul>')
+	})
+
+	it('renders links to pages', async () => {
+		assert.equal(await renderMarkup('[[[Some Page|label]]]', context()), '<p><a href="some-page.html">label</a></p>')
+	})
+
+	it('escapes html', async () => {
+		const html = await renderMarkup('<script>alert(1)</script>', context())
+		assert.ok(!html.includes('<script>'))
+		assert.ok(html.includes('&lt;script&gt;'))
+	})
+
+	it('replaces unsafe link targets', async () => {
+		assert.equal(await renderMarkup('[[a href="java\tscript:alert(1)"]]x[[/a]]', context()), '<p><a href="#">x</a></p>')
+		assert.equal(await renderMarkup('[[a href="data:text/html,x"]]x[[/a]]', context()), '<p><a href="#">x</a></p>')
+		assert.equal(await renderMarkup('[[a href="https://example.com/"]]x[[/a]]', context()), '<p><a href="https://example.com/">x</a></p>')
+	})
+
+	it('points images at stored files of page', async () => {
+		assert.ok((await renderMarkup('[[image pic.png]]', context())).includes('src="files/start/pic.png"'))
+	})
+
+	it('includes pages', async () => {
+		const html = await renderMarkup('[[include inc]]', context({include: async page => page == 'inc' ? '**included**' : null}))
+		assert.ok(html.includes('<strong>included</strong>'))
+	})
+})
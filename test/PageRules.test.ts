@@ -0,0 +1,47 @@
+
+import { strict as assert } from 'assert'
+import { compilePattern, PageRules } from '../PageRules'
+
+describe('PageRules', () => {
+	it('compiles globs matching whole name', () => {
+		const pattern = compilePattern('scp-?00*')
+
+		assert.ok(pattern.test('scp-100'))
+		assert.ok(pattern.test('SCP-2000-j'))
+		assert.ok(!pattern.test('scp-110'))
+		assert.ok(!pattern.test('old:scp-100'))
+		assert.ok(compilePattern('a.b').test('a.b'))
+		assert.ok(!compilePattern('a.b').test('axb'))
+	})
+
+	it('compiles regular expressions without stateful flags', () => {
+		const pattern = compilePattern('/^fragment:/g')
+
+		assert.ok(pattern.test('fragment:a'))
+		assert.ok(pattern.test('fragment:a'))
+		assert.throws(() => compilePattern('/(/'))
+	})
+
+	it('skips matching pages in blacklist mode', () => {
+		const rules = new PageRules(['fragment:*', {pattern: 'archive:*', policy: 'latest'}])
+
+		assert.equal(rules.policyOf('fragment:x'), 'skip')
+		assert.equal(rules.policyOf('archive:x'), 'latest')
+		assert.equal(rules.policyOf('main'), 'full')
+	})
+
+	it('backs up only matching pages in whitelist mode', () => {
+		const rules = new PageRules([{pattern: 'scp-*', policy: 'metadata'}, 'main'], 'whitelist')
+
+		assert.equal(rules.policyOf('scp-1'), 'metadata')
+		assert.equal(rules.policyOf('main'), 'full')
+		assert.equal(rules.policyOf('other'), 'skip')
+	})
+
+	it('applies first matching rule', () => {
+		const rules = new PageRules([{pattern: 'scp-1', policy: 'full'}, 'scp-*'])
+
+		assert.equal(rules.policyOf('scp-1'), 'full')
+		assert.equal(rules.policyOf('scp-2'), 'skip')
+	})
+})
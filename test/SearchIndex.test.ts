@@ -0,0 +1,110 @@
+
+import { strict as assert } from 'assert'
+import { SearchIndex, tokenize } from '../SearchIndex'
+import { WikiDot } from '../WikiDot'
+import { memoryWiki } from './helpers'
+
+async function storePage(wiki: WikiDot, name: string, title: string, body: string) {
+	await wiki.writePageMetadata(name, {
+		name: name,
+		page_id: name.length,
+		title: title,
+		revisions: [{revision: 0, global_revision: 1, author: 1, stamp: 1000, flags: 'N', commentary: ''}],
+		files: []
+	})
+
+	await wiki.writeRevision(name, 0, body)
+}
+
+describe('SearchIndex', () => {
+	it('tokenizes words of any script', () => {
+		assert.deepEqual(tokenize('SCP-173, Объект_1!'), ['scp', '173', 'объект_1'])
+	})
+
+	it('finds pages containing every word of query', async () => {
+		const {wiki, storage} = memoryWiki()
+		const index = new SearchIndex(storage)
+		await storePage(wiki, 'scp-173', 'The Sculpture', 'It is made of **concrete** and rebar.')
+		await storePage(wiki, 'scp-096', 'The Shy Guy', 'Concrete walls do not stop it.')
+
+		await index.indexPage(wiki, 'scp-173')
+		await index.indexPage(wiki, 'scp-096')
+		await index.write()
+
+		assert.deepEqual((await index.search('concrete')).map(result => result.page).sort(), ['scp-096', 'scp-173'])
+		assert.deepEqual((await index.search('concrete rebar')).map(result => result.page), ['scp-173'])
+		assert.deepEqual(await index.search('missing'), [])
+
+		const [result] = await index.search('sculpture')
+		assert.equal(result.title, 'The Sculpture')
+		assert.equal(result.revision, 0)
+	})
+
+	it('matches quoted phrases only as consecutive words', async () => {
+		const {wiki, storage} = memoryWiki()
+		const index = new SearchIndex(storage)
+		await storePage(wiki, 'a', 'A', 'red apple and green pear')
+		await storePage(wiki, 'b', 'B', 'green apple and red pear')
+
+		await index.indexPage(wiki, 'a')
+		await index.indexPage(wiki, 'b')
+		await index.write()
+
+		assert.deepEqual((await index.search('"red apple"')).map(result => result.page), ['a'])
+		assert.equal((await index.search('red apple')).length, 2)
+	})
+
+	it('keeps reading written index from storage', async () => {
+		const {wiki, storage} = memoryWiki()
+		await storePage(wiki, 'foo', 'Foo', 'stored words')
+
+		const index = new SearchIndex(storage)
+		await index.indexPage(wiki, 'foo')
+		await index.write()
+
+		assert.deepEqual((await new SearchIndex(storage).search('words')).map(result => result.page), ['foo'])
+	})
+
+	it('removes pages which are no longer stored', async () => {
+		const {wiki, storage} = memoryWiki()
+		const index = new SearchIndex(storage)
+		await storePage(wiki, 'foo', 'Foo', 'gone soon')
+		await index.indexPage(wiki, 'foo')
+		await index.write()
+
+		await wiki.markPageRemoved('foo')
+		await index.indexPage(wiki, 'foo')
+		await index.write()
+
+		assert.deepEqual(await index.search('gone'), [])
+	})
+
+	it('keeps pending texts when searching before write', async () => {
+		const {wiki, storage} = memoryWiki()
+		const index = new SearchIndex(storage)
+		await storePage(wiki, 'foo', 'Foo', 'first words')
+		await index.indexPage(wiki, 'foo')
+		await index.write()
+
+		await storePage(wiki, 'bar', 'Bar', 'second words')
+		await index.indexPage(wiki, 'bar')
+		await index.search('words')
+		await index.write()
+
+		assert.deepEqual((await index.search('second')).map(result => result.snippet), ['second words'])
+	})
+
+	it('keeps queue of written pages on disk until index is updated', async () => {
+		const {wiki, storage} = memoryWiki({indexing: true})
+		await wiki['initialize']()
+		await storePage(wiki, 'foo', 'Foo', 'queued words')
+		await wiki.syncMeta()
+
+		assert.deepEqual(await storage.readJson('meta/search_queue.json'), {pages: ['foo']})
+
+		await wiki.flush()
+
+		assert.deepEqual(await storage.readJson('meta/search_queue.json'), {pages: []})
+		assert.deepEqual((await wiki.searchIndex.search('queued')).map(result => result.page), ['foo'])
+	})
+})
@@ -0,0 +1,86 @@
+
+import { strict as assert } from 'assert'
+import { MemoryBackend } from '../StorageBackend'
+
+function code(expected: string) {
+	return (err: NodeJS.ErrnoException) => err.code == expected
+}
+
+describe('MemoryBackend', () => {
+	it('writes files only into existing directories', async () => {
+		const storage = new MemoryBackend()
+
+		await assert.rejects(storage.writeFile('a/b.txt', 'x'), code('ENOENT'))
+		await storage.mkdir('a/c')
+		await storage.writeFile('a/b.txt', 'x')
+		await storage.appendFile('a/b.txt', 'y')
+
+		assert.equal(await storage.readTextFile('a/b.txt'), 'xy')
+		assert.deepEqual(await storage.readdir('a'), ['b.txt', 'c'])
+		assert.deepEqual(await storage.readdir(''), ['a'])
+		assert.ok((await storage.stat('a')).isDirectory())
+		assert.equal((await storage.stat('a/b.txt')).size, 2)
+	})
+
+	it('reports missing paths like file system does', async () => {
+		const storage = new MemoryBackend()
+		await storage.mkdir('a')
+
+		await assert.rejects(storage.readFile('missing'), code('ENOENT'))
+		await assert.rejects(storage.readFile('a'), code('EISDIR'))
+		await assert.rejects(storage.stat('missing'), code('ENOENT'))
+		await assert.rejects(storage.readdir('missing'), code('ENOENT'))
+		await assert.rejects(storage.unlink('missing'), code('ENOENT'))
+		await assert.rejects(storage.rm('missing'), code('ENOENT'))
+		await storage.rm('missing', {force: true})
+	})
+
+	it('keeps backup of replaced json', async () => {
+		const storage = new MemoryBackend()
+
+		assert.equal(await storage.readJson('a.json'), null)
+		await storage.writeJson('a.json', {value: 1})
+		await storage.writeJson('a.json', {value: 2})
+		assert.deepEqual(await storage.readJson('a.json.bak'), {value: 1})
+
+		await storage.writeFile('a.json', '{')
+		await assert.rejects(storage.readJson('a.json'))
+
+		let corrupt = 0
+		assert.deepEqual(await storage.readJson('a.json', () => corrupt++), {value: 1})
+		assert.equal(corrupt, 1)
+	})
+
+	it('removes directories recursively', async () => {
+		const storage = new MemoryBackend()
+		await storage.mkdir('a/b')
+		await storage.writeFile('a/b/c', 'x')
+		await storage.writeFile('ab', 'x')
+
+		await assert.rejects(storage.rm('a'))
+		await storage.rm('a', {recursive: true})
+
+		assert.deepEqual(await storage.readdir(''), ['ab'])
+	})
+
+	it('renames files and directories', async () => {
+		const storage = new MemoryBackend()
+		await storage.mkdir('a/b')
+		await storage.mkdir('d')
+		await storage.writeFile('a/b/c', 'x')
+
+		await storage.rename('a', 'd/e')
+		assert.equal(await storage.readTextFile('d/e/b/c'), 'x')
+		assert.deepEqual(await storage.readdir(''), ['d'])
+
+		await storage.rename('d/e/b/c', 'f')
+		assert.equal(await storage.readTextFile('f'), 'x')
+
+		await assert.rejects(storage.rename('missing', 'g'), code('ENOENT'))
+		await assert.rejects(storage.rename('f', 'missing/g'), code('ENOENT'))
+		await assert.rejects(storage.rename('d', 'f'), code('ENOTDIR'))
+		await assert.rejects(storage.rename('d/e', 'd'), code('ENOTEMPTY'))
+		await assert.rejects(storage.rename('d', 'd/e/x'), code('EINVAL'))
+		assert.equal(storage.localPath('f'), null)
+	})
+})
@@ -0,0 +1,69 @@
+
+import { strict as assert } from 'assert'
+import { AddressInfo } from 'net'
+import { DaemonConfig } from '../DaemonConfig'
+import { HTTPClient } from '../HTTPClient'
+import { ViewerServer } from '../ViewerServer'
+import { WikiDotUserList } from '../WikidotUserList'
+import { memoryWiki } from './helpers'
+
+import http = require('http')
+
+function get(port: number, path: string): Promise<http.IncomingMessage> {
+	return new Promise((resolve, reject) => {
+		http.get({host: '127.0.0.1', port: port, path: path}, response => {
+			response.resume()
+			resolve(response)
+		}).on('error', reject)
+	})
+}
+
+describe('ViewerServer', () => {
+	let server: ViewerServer
+	let port: number
+
+	beforeEach(async () => {
+		const config = new DaemonConfig({base_directory: 'storage', wikis: [{name: 'test', url: 'https://test.wikidot.com'}]})
+		const {wiki} = memoryWiki()
+
+		await wiki.writePageMetadata('foo', {
+			name: 'foo',
+			page_id: 1,
+			title: 'Foo',
+			revisions: [{revision: 0, global_revision: 1, author: 1, stamp: 1000, flags: 'N', commentary: ''}],
+			files: [{file_id: 7, name: 'a.html', url: 'https://test.wikidot.com/local--files/foo/a.html', size: '17 bytes', size_bytes: 17, mime: 'text/html', content: 'HTML document', author: 1, stamp: 1000}]
+		})
+
+		await wiki.writeRevision('foo', 0, 'body')
+		await wiki.storage.mkdir('files/foo')
+		await wiki.storage.writeFile('files/foo/7', '<script></script>')
+		await wiki.writeForumThread(1, {id: 2, title: 'Thread', description: '', started: 1000, startedUser: 1, postsNum: 1, sticky: false, isLocked: false, posts: []})
+		await wiki.writePostRevision(1, 2, 3, 'latest', '<script></script>')
+
+		server = new ViewerServer(config, new WikiDotUserList('storage/_users', new HTTPClient(1)))
+		server['wikis'].set('test', wiki)
+		server['log'] = () => {}
+		await server.listen('127.0.0.1:0')
+		port = (server['server'].address() as AddressInfo).port
+	})
+
+	afterEach(async () => {
+		await server.close()
+	})
+
+	it('serves stored files and posts in sandbox', async () => {
+		for (const path of ['/wikis/test/files/foo/7', '/wikis/test/files/foo/a.html', '/wikis/test/forum/1/2/posts/3', '/wikis/test/pages/foo/html']) {
+			const response = await get(port, path)
+
+			assert.equal(response.statusCode, 200, path)
+			assert.equal(response.headers['content-security-policy'], 'sandbox', path)
+		}
+	})
+
+	it('serves metadata as json', async () => {
+		const response = await get(port, '/wikis/test/pages/foo')
+
+		assert.equal(response.statusCode, 200)
+		assert.equal(response.headers['content-type'], 'application/json; charset=utf-8')
+	})
+})
@@ -0,0 +1,178 @@
+
+import { strict as assert } from 'assert'
+import { FileMeta, Lock, PageMeta, WikiDot } from '../WikiDot'
+import { PageRules } from '../PageRules'
+import { sha256 } from '../storage'
+import { memoryWiki, SitemapClient } from './helpers'
+
+function pageMeta(name: string, page_id: number): PageMeta {
+	return {
+		name: name,
+		page_id: page_id,
+		title: name,
+		revisions: [{revision: 0, global_revision: page_id * 10, author: 1, stamp: 1000, flags: 'N', commentary: ''}],
+		files: []
+	}
+}
+
+function fileMeta(url: string, file_id: number): FileMeta {
+	return {file_id: file_id, name: url.substring(url.lastIndexOf('/') + 1), url: url, size: '3 bytes', size_bytes: 3, mime: 'text/plain', content: 'text', author: 1, stamp: 1000}
+}
+
+async function storePage(wiki: WikiDot, meta: PageMeta, body: string) {
+	await wiki.writePageMetadata(meta.name, meta)
+	await wiki.writeRevision(meta.name, 0, body)
+}
+
+describe('WikiDot storage', () => {
+	it('reads back stored metadata and revisions under normalized names', async () => {
+		const {wiki, storage} = memoryWiki()
+		await storePage(wiki, pageMeta('component:foo', 1), 'body of foo')
+
+		assert.equal((await wiki.readPageMetadata('component:foo'))?.page_id, 1)
+		assert.equal(await wiki.readRevision('component:foo', 0), 'body of foo')
+		assert.equal(await wiki.readLatestRevision('component:foo'), 'body of foo')
+		assert.deepEqual(await storage.readdir('meta/pages'), ['component_foo.json'])
+		assert.equal(await wiki.readPageMetadata('missing'), null)
+	})
+
+	it('locates stored files by directory of their local--files URL', async () => {
+		const file = fileMeta('https://test.wikidot.com/local--files/component:foo/a.txt', 77)
+		assert.equal(WikiDot.storedFilePath(file), 'files/component%3Afoo/77')
+		assert.equal(WikiDot.storedFilePath(fileMeta('https://example.com/a.txt', 78)), null)
+	})
+
+	it('deletes removed pages without tombstones', async () => {
+		const {wiki, storage} = memoryWiki()
+		await storePage(wiki, pageMeta('foo', 1), 'body')
+		await wiki.markPageRemoved('foo')
+
+		assert.equal(await wiki.readPageMetadata('foo'), null)
+		assert.equal(await wiki.readRevision('foo', 0), null)
+		assert.deepEqual(await storage.readdir(''), ['meta', 'pages'])
+		assert.deepEqual(await wiki.graveyard.list(), [])
+	})
+
+	it('moves removed pages into graveyard and restores them', async () => {
+		const {wiki} = memoryWiki({tombstones: true})
+		await storePage(wiki, pageMeta('foo', 1), 'body')
+		await wiki.markPageRemoved('foo')
+
+		assert.equal(await wiki.readPageMetadata('foo'), null)
+
+		const [tombstone] = await wiki.graveyard.list()
+		assert.equal(tombstone.kind, 'page')
+		assert.equal(tombstone.page, 'foo')
+		assert.deepEqual(tombstone.paths, ['meta/pages/foo.json', 'pages/foo'])
+
+		await wiki.restoreTombstone(tombstone.id)
+		assert.equal((await wiki.readPageMetadata('foo'))?.title, 'foo')
+		assert.equal(await wiki.readRevision('foo', 0), 'body')
+		assert.deepEqual(await wiki.graveyard.list(), [])
+	})
+
+	it('refuses to restore tombstone over existing page', async () => {
+		const {wiki} = memoryWiki({tombstones: true})
+		await storePage(wiki, pageMeta('foo', 1), 'old')
+		await wiki.markPageRemoved('foo')
+		await storePage(wiki, pageMeta('foo', 2), 'new')
+
+		const [tombstone] = await wiki.graveyard.list()
+		await assert.rejects(wiki.restoreTombstone(tombstone.id), /already exists/)
+		assert.equal(await wiki.readRevision('foo', 0), 'new')
+	})
+
+	it('moves history log and files stored by their URL along with removed page', async () => {
+		const {wiki, storage} = memoryWiki({tombstones: true})
+		const meta = pageMeta('component:foo', 1)
+		meta.files = [fileMeta('https://test.wikidot.com/local--files/component:foo/a.txt', 77)]
+		await storePage(wiki, meta, 'body')
+		await storage.mkdir('files/component%3Afoo')
+		await storage.writeFile('files/component%3Afoo/77', 'abc')
+		await storage.mkdir('meta/history')
+		await storage.writeFile('meta/history/component_foo.jsonl', '{"stamp":1000,"changes":{"rating":1}}\n')
+
+		await wiki.markPageRemoved('component:foo')
+
+		const [tombstone] = await wiki.graveyard.list()
+		assert.deepEqual(tombstone.paths, ['meta/pages/component_foo.json', 'meta/history/component_foo.jsonl', 'pages/component_foo', 'files/component%3Afoo'])
+		assert.deepEqual(await storage.readdir('files'), [])
+
+		await wiki.restoreTombstone(tombstone.id)
+		assert.equal(await storage.readTextFile('files/component%3Afoo/77'), 'abc')
+		assert.equal((await wiki.readPageHistory('component:foo')).length, 1)
+	})
+
+	it('deletes history log and files stored by their URL of removed page without tombstones', async () => {
+		const {wiki, storage} = memoryWiki()
+		const meta = pageMeta('component:foo', 1)
+		meta.files = [fileMeta('https://test.wikidot.com/local--files/component:foo/a.txt', 77)]
+		await storePage(wiki, meta, 'body')
+		await storage.mkdir('files/component%3Afoo')
+		await storage.writeFile('files/component%3Afoo/77', 'abc')
+		await storage.mkdir('meta/history')
+		await storage.writeFile('meta/history/component_foo.jsonl', '{"stamp":1000,"changes":{"rating":1}}\n')
+
+		await wiki.markPageRemoved('component:foo')
+
+		assert.deepEqual(await storage.readdir('files'), [])
+		assert.deepEqual(await storage.readdir('meta/history'), [])
+	})
+})
+
+describe('WikiDot sitemap scan', () => {
+	it('removes pages which are gone, but keeps pages excluded by page rules', async () => {
+		const client = new SitemapClient([['kept', '2020-01-01T00:00:00Z'], ['excluded', '2020-01-01T00:00:00Z']])
+		const {wiki} = memoryWiki({client: client, rules: new PageRules(['excluded'])})
+
+		const stamp = new Date('2020-01-01T00:00:00Z')
+		await storePage(wiki, pageMeta('kept', 1), 'kept')
+		await storePage(wiki, pageMeta('excluded', 2), 'excluded')
+		await storePage(wiki, pageMeta('gone', 3), 'gone')
+		await wiki.writeSiteMap([['kept', stamp], ['excluded', stamp], ['gone', stamp]])
+
+		await wiki['syncSitemap'](new Lock())
+
+		assert.notEqual(await wiki.readPageMetadata('kept'), null)
+		assert.notEqual(await wiki.readPageMetadata('excluded'), null)
+		assert.equal(await wiki.readPageMetadata('gone'), null)
+		assert.deepEqual([...(await wiki.readSiteMap())!.keys()].sort(), ['excluded', 'kept'])
+	})
+
+	it('does not queue anything of kept pages excluded by page rules', async () => {
+		const {wiki} = memoryWiki({rules: new PageRules(['excluded'])})
+		const meta = pageMeta('excluded', 2)
+		meta.files = [fileMeta('https://test.wikidot.com/local--files/excluded/a.txt', 5)]
+		await wiki.writePageMetadata('excluded', meta)
+
+		const result = await wiki.verifyPage('excluded', true)
+
+		assert.deepEqual(result.missing_revisions, [])
+		assert.deepEqual(result.missing_files, [])
+		assert.deepEqual(wiki['pendingRevisions'].data, {})
+		assert.deepEqual(wiki['pendingFiles'].data, [])
+	})
+})
+
+describe('WikiDot verify', () => {
+	it('reports revisions which are missing or do not match their checksums', async () => {
+		const {wiki} = memoryWiki()
+		const meta = pageMeta('foo', 1)
+
+		meta.revisions = [
+			{revision: 0, global_revision: 10, author: 1, stamp: 1000, flags: 'N', commentary: '', sha256: sha256('first')},
+			{revision: 1, global_revision: 11, author: 1, stamp: 2000, flags: 'S', commentary: '', sha256: sha256('second')},
+			{revision: 2, global_revision: 12, author: 1, stamp: 3000, flags: 'S', commentary: ''},
+			{revision: 3, global_revision: 13, author: 1, stamp: 4000, flags: 'S', commentary: ''},
+		]
+
+		await wiki.writePageMetadata('foo', meta)
+		await wiki.writeRevision('foo', 0, 'first')
+		await wiki.writeRevision('foo', 1, 'changed')
+		await wiki.writeRevision('foo', 2, 'third')
+
+		const result = await wiki.verifyPage('foo')
+		assert.equal(result.metadata, true)
+		assert.deepEqual(result.missing_revisions, [1, 3])
+	})
+})
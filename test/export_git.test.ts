@@ -0,0 +1,73 @@
+
+import { strict as assert } from 'assert'
+import { execFileSync } from 'child_process'
+import { promises } from 'fs'
+import { exportWikiGit } from '../export_git'
+import { HTTPClient } from '../HTTPClient'
+import { PageRevision, WikiDot } from '../WikiDot'
+import { WikiDotUserList } from '../WikidotUserList'
+import { memoryWiki } from './helpers'
+
+import os = require('os')
+import path = require('path')
+
+function revision(revision: number, global_revision: number, stamp: number): PageRevision {
+	return {revision: revision, global_revision: global_revision, author: 5, stamp: stamp, flags: 'S', commentary: ''}
+}
+
+async function storePage(wiki: WikiDot, name: string, revisions: PageRevision[]) {
+	await wiki.writePageMetadata(name, {name: name, page_id: name.length, title: name, revisions: revisions, files: []})
+}
+
+describe('export_git', () => {
+	let directory: string
+	let userList: WikiDotUserList
+
+	beforeEach(async () => {
+		directory = await promises.mkdtemp(path.join(os.tmpdir(), 'export-git-'))
+		userList = new WikiDotUserList(`${directory}/_users`, new HTTPClient(1))
+	})
+
+	afterEach(async () => {
+		await promises.rm(directory, {recursive: true, force: true})
+	})
+
+	const git = (...args: string[]) => execFileSync('git', args, {cwd: `${directory}/test.git`, encoding: 'utf-8'})
+
+	it('commits stored revisions of every page in order of their dates', async () => {
+		const {wiki} = memoryWiki()
+		await storePage(wiki, 'foo', [revision(0, 1, 1000), revision(1, 3, 3000)])
+		await storePage(wiki, 'component:bar', [revision(0, 2, 2000), revision(1, 4, 4000)])
+		await wiki.writeSiteMap([['foo', new Date(3000)], ['component:bar', new Date(4000)]])
+
+		await wiki.writeRevision('foo', 0, 'foo 0')
+		await wiki.writeRevision('foo', 1, 'foo 1')
+		await wiki.writeRevision('component:bar', 0, 'bar 0')
+
+		const messages: string[] = []
+		assert.equal(await exportWikiGit(wiki, userList, `${directory}/test.git`, message => messages.push(message)), 3)
+
+		assert.deepEqual(git('log', '--format=%s', 'master').trim().split('\n'), ['foo: revision 1', 'component:bar: revision 0', 'foo: revision 0'])
+		assert.equal(git('show', 'master:foo.txt'), 'foo 1')
+		assert.equal(git('show', 'master:component_bar.txt'), 'bar 0')
+		assert.equal(git('log', '-1', '--format=%an <%ae> %at', 'master').trim(), 'user #5 <5@wikidot> 3')
+		assert.deepEqual(messages, ['Exporting 4 revisions', 'Revision 1 of component:bar is not stored, skipping'])
+	})
+
+	it('appends only revisions newer than exported ones', async () => {
+		const {wiki} = memoryWiki()
+		await storePage(wiki, 'foo', [revision(0, 1, 1000)])
+		await wiki.writeSiteMap([['foo', new Date(1000)]])
+		await wiki.writeRevision('foo', 0, 'foo 0')
+
+		assert.equal(await exportWikiGit(wiki, userList, `${directory}/test.git`, () => {}), 1)
+
+		await storePage(wiki, 'foo', [revision(0, 1, 1000), revision(1, 2, 2000)])
+		await wiki.writeRevision('foo', 1, 'foo 1')
+
+		assert.equal(await exportWikiGit(wiki, userList, `${directory}/test.git`, () => {}), 1)
+		assert.equal(await exportWikiGit(wiki, userList, `${directory}/test.git`, () => {}), 0)
+		assert.deepEqual(git('log', '--format=%s', 'master').trim().split('\n'), ['foo: revision 1', 'foo: revision 0'])
+		assert.equal(git('show', 'master:foo.txt'), 'foo 1')
+	})
+})
@@ -0,0 +1,55 @@
+
+import { WikiDot } from '../WikiDot'
+import { MemoryBackend } from '../StorageBackend'
+import { PageRules } from '../PageRules'
+import { HTTPClient } from '../HTTPClient'
+import { PromiseQueue } from '../worker'
+
+export interface TestWikiOptions {
+	rules?: PageRules
+	tombstones?: boolean
+	indexing?: boolean
+	client?: HTTPClient
+}
+
+/**
+ * Wiki kept in memory, without timers running in background
+ */
+export function memoryWiki(options: TestWikiOptions = {}) {
+	const client = options.client ?? null
+	const storage = new MemoryBackend()
+
+	const wiki = new WikiDot(
+		'test',
+		'https://test.wikidot.com',
+		'storage/test',
+		client,
+		client !== null ? new PromiseQueue(0, 1) : null,
+		null,
+		false,
+		[],
+		undefined,
+		options.rules,
+		options.tombstones,
+		options.indexing,
+		storage
+	)
+
+	wiki.setConsoleLogging(false)
+	wiki.stopMetaSyncTimer()
+	return {wiki, storage}
+}
+
+/**
+ * Answers every request with sitemap listing pages
+ */
+export class SitemapClient extends HTTPClient {
+	constructor(public pages: [string, string][]) {
+		super(1)
+	}
+
+	public get(url: string): Promise<Buffer> {
+		const urls = this.pages.map(([page, lastmod]) => `<url><loc>https://test.wikidot.com/${page}</loc><lastmod>${lastmod}</lastmod></url>`)
+		return Promise.resolve(Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>\n<urlset>${urls.join('')}</urlset>`))
+	}
+}
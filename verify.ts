@@ -0,0 +1,121 @@
+import { DaemonConfig, WikiEntry } from "./DaemonConfig"
+import { PageIdMapVerification, PageVerification, ThreadVerification } from "./WikiDot"
+import { Writable } from "stream"
+
+export interface WikiVerification {
+	wiki: string
+	// whether sitemap is present, it is missing if wiki was never backed up
+	sitemap: boolean
+	// only pages with problems are listed
+	pages: PageVerification[]
+	// only threads with problems are listed
+	threads: ThreadVerification[]
+	page_id_map: PageIdMapVerification
+	// amount of revisions and files queued for next backup
+	queued: {revisions: number, files: number}
+}
+
+/**
+ * Amount of problems found in wiki
+ */
+export function countProblems(report: WikiVerification) {
+	let count = report.sitemap ? 0 : 1
+
+	for (const page of report.pages) {
+		count += (page.metadata ? 0 : 1) + page.missing_revisions.length + page.missing_files.length
+	}
+
+	for (const thread of report.threads) {
+		count += thread.missing_posts.length + thread.missing_revisions.length
+	}
+
+	return count + report.page_id_map.unmapped.length + report.page_id_map.stale.length
+}
+
+/**
+ * Checks stored wiki against its metadata, without accessing network
+ *
+ * @param queue whenever to queue missing revisions and files, so next backup fetches them
+ */
+export async function verifyWiki(config: DaemonConfig, entry: WikiEntry, queue = false): Promise<WikiVerification> {
+	const name = entry.name
+	const wiki = config.makeWiki(entry, null, false)
+
+	const report: WikiVerification = {
+		wiki: name,
+		sitemap: false,
+		pages: [],
+		threads: [],
+		page_id_map: {unmapped: [], stale: []},
+		queued: {revisions: 0, files: 0}
+	}
+
+	try {
+		// before queueing, which updates the map
+		report.page_id_map = await wiki.verifyPageIdMap()
+
+		const sitemap = await wiki.readSiteMap()
+
+		if (sitemap === null) {
+			process.stderr.write(`[${name}] Sitemap is missing, wiki was never backed up\n`)
+		} else {
+			report.sitemap = true
+			process.stderr.write(`[${name}] Verifying ${sitemap.size} pages...\n`)
+
+			for (const page of sitemap.keys()) {
+				const result = await wiki.verifyPage(page, queue)
+
+				if (!result.metadata || result.missing_revisions.length != 0 || result.missing_files.length != 0) {
+					report.pages.push(result)
+				}
+			}
+		}
+
+		process.stderr.write(`[${name}] Verifying forum...\n`)
+
+		for (const category of Object.keys(await wiki.readForumCategories())) {
+			for (const thread of await wiki.readForumThreadList(parseInt(category))) {
+				const result = await wiki.verifyThread(parseInt(category), thread)
+
+				if (result !== null && (result.missing_posts.length != 0 || result.missing_revisions.length != 0)) {
+					report.threads.push(result)
+				}
+			}
+		}
+	} finally {
+		await wiki.flush()
+	}
+
+	if (queue) {
+		for (const page of report.pages) {
+			report.queued.revisions += page.missing_revisions.length
+			report.queued.files += page.missing_files.length
+		}
+	}
+
+	return report
+}
+
+/**
+ * Verifies every wiki and writes report of each of them as JSON line
+ *
+ * @param queue whenever to queue missing revisions and files, so next backup fetches them
+ * @returns amount of problems found
+ */
+export async function verifyWikis(config: DaemonConfig, output: Writable, wikis: WikiEntry[] = config.wikis, queue = false) {
+	let problems = 0
+
+	for (const entry of wikis) {
+		const report = await verifyWiki(config, entry, queue)
+		const count = countProblems(report)
+		problems += count
+
+		process.stderr.write(`[${entry.name}] ${count == 0 ? 'No problems found' : `${count} problem(s) found`}\n`)
+
+		if (!output.write(JSON.stringify(report) + '\n')) {
+			await new Promise(resolve => output.once('drain', resolve))
+		}
+	}
+
+	return problems
+}
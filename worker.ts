@@ -4,6 +4,8 @@ import { promisify } from 'util'
 const sleep = promisify(setTimeout)
 
 export class PromiseQueue {
+	private _stopped = false
+
 	constructor(private ms: number = 0, private jobs: number | null = null) {
 		this.setWorkerConfig(ms, jobs)
 	}
@@ -27,6 +29,21 @@ export class PromiseQueue {
 		}
 	}
 
+	public get stopped() {
+		return this._stopped
+	}
+
+	/**
+	 * Stops blocking queues from picking up new tasks, tasks which are already running are not affected
+	 */
+	stop() {
+		this._stopped = true
+	}
+
+	resume() {
+		this._stopped = false
+	}
+
 	async run <T>(worker: () => Promise<T>, desiredThreadCount: number) {
 		if (this.jobs != null) {
 			desiredThreadCount = Math.min(this.jobs, desiredThreadCount)
@@ -48,7 +65,7 @@ export class PromiseQueue {
 
 	blockingQueue(tasks: (() => Promise<any>)[]) {
 		return async () => {
-			while (tasks.length != 0) {
+			while (tasks.length != 0 && !this._stopped) {
 				await tasks.pop()!()
 				await this.workerDelay()
 			}